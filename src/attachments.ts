@@ -0,0 +1,181 @@
+import type { Input, UserInput } from "@openai/codex-sdk";
+import * as fs from "fs";
+import * as path from "path";
+import { globToRegExp, toRelativePath } from "./glob.js";
+
+// ============ Prompt Attachments ============
+
+/** Largest single file inlined into the prompt. */
+export const MAX_FILE_BYTES = 100 * 1024;
+/** Largest total of inlined files per prompt. */
+export const MAX_TOTAL_FILE_BYTES = 256 * 1024;
+/** Largest image passed to Codex. */
+export const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+const MAX_GLOB_MATCHES = 100;
+const GLOB_SKIP_DIRS = new Set([".git", "node_modules"]);
+const IMAGE_EXTENSIONS = new Set([".png", ".jpg", ".jpeg", ".gif", ".webp", ".bmp"]);
+
+export interface AttachmentArgs {
+  /** Local image paths (relative to cwd), passed to Codex as images. */
+  images?: string[];
+  /** File paths or globs (relative to cwd) whose contents are inlined into the prompt. */
+  files?: string[];
+}
+
+export interface InlinedFile {
+  /** Relative to cwd when inside it. */
+  path: string;
+  bytes: number;
+  content: string;
+}
+
+export interface Attachments {
+  /** Absolute paths. */
+  images: { path: string; bytes: number }[];
+  files: InlinedFile[];
+}
+
+function isGlob(pattern: string): boolean {
+  return /[*?{]/.test(pattern);
+}
+
+function statFile(absolutePath: string, display: string, kind: string): fs.Stats {
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(absolutePath);
+  } catch {
+    throw new Error(`${kind} not found: ${display}`);
+  }
+  if (!stat.isFile()) {
+    throw new Error(`${kind} is not a file: ${display}`);
+  }
+  return stat;
+}
+
+/** Files below `root` matching `glob`, sorted; `.git` and `node_modules` are skipped. */
+function expandGlob(root: string, glob: string): string[] {
+  const pattern = globToRegExp(glob.replace(/^\.\//, ""));
+  const matches: string[] = [];
+  const walk = (dir: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!GLOB_SKIP_DIRS.has(entry.name)) walk(fullPath);
+      } else if (entry.isFile() && pattern.test(toRelativePath(root, fullPath))) {
+        matches.push(fullPath);
+        if (matches.length > MAX_GLOB_MATCHES) {
+          throw new Error(`Too many files match ${glob} (more than ${MAX_GLOB_MATCHES})`);
+        }
+      }
+    }
+  };
+  walk(root);
+  return matches.sort();
+}
+
+/** Relative to `root` when inside it, else absolute. */
+export function displayPath(root: string, absolutePath: string): string {
+  const relative = toRelativePath(root, absolutePath);
+  return relative.startsWith("../") ? absolutePath : relative;
+}
+
+/**
+ * Absolute paths of the files named by `patterns` (paths or globs, relative to
+ * `cwd`), without duplicates. Throws when a file is missing or a glob matches nothing.
+ */
+export function resolveFilePatterns(patterns: string[], cwd: string): string[] {
+  const filePaths: string[] = [];
+  for (const pattern of patterns) {
+    if (isGlob(pattern)) {
+      const matches = expandGlob(cwd, pattern);
+      if (matches.length === 0) {
+        throw new Error(`No files match: ${pattern}`);
+      }
+      filePaths.push(...matches);
+    } else {
+      const absolutePath = path.resolve(cwd, pattern);
+      statFile(absolutePath, pattern, "File");
+      filePaths.push(absolutePath);
+    }
+  }
+  return [...new Set(filePaths)];
+}
+
+/**
+ * Check and read the attachments of a prompt. Throws when an image or file
+ * is missing, a glob matches nothing, or a size limit is exceeded.
+ */
+export function resolveAttachments(args: AttachmentArgs, cwd: string): Attachments {
+  const images = (args.images ?? []).map((image) => {
+    const absolutePath = path.resolve(cwd, image);
+    if (!IMAGE_EXTENSIONS.has(path.extname(absolutePath).toLowerCase())) {
+      throw new Error(`Unsupported image type: ${image} (expected ${[...IMAGE_EXTENSIONS].join(", ")})`);
+    }
+    const { size } = statFile(absolutePath, image, "Image");
+    if (size > MAX_IMAGE_BYTES) {
+      throw new Error(`Image too large: ${image} (${size} bytes, limit ${MAX_IMAGE_BYTES})`);
+    }
+    return { path: absolutePath, bytes: size };
+  });
+
+  let totalBytes = 0;
+  const files = resolveFilePatterns(args.files ?? [], cwd).map((absolutePath) => {
+    const display = displayPath(cwd, absolutePath);
+    const { size } = statFile(absolutePath, display, "File");
+    if (size > MAX_FILE_BYTES) {
+      throw new Error(`File too large to inline: ${display} (${size} bytes, limit ${MAX_FILE_BYTES})`);
+    }
+    totalBytes += size;
+    if (totalBytes > MAX_TOTAL_FILE_BYTES) {
+      throw new Error(`Attached files exceed ${MAX_TOTAL_FILE_BYTES} bytes in total (at ${display})`);
+    }
+    const buffer = fs.readFileSync(absolutePath);
+    if (buffer.includes(0)) {
+      throw new Error(`Not a text file: ${display}`);
+    }
+    return { path: display, bytes: size, content: buffer.toString("utf8") };
+  });
+
+  return { images, files };
+}
+
+/** A code fence longer than any backtick run in `content`. */
+export function fenceFor(content: string): string {
+  const longest = Math.max(0, ...(content.match(/`+/g) ?? []).map((run) => run.length));
+  return "`".repeat(Math.max(3, longest + 1));
+}
+
+/** The prompt text followed by the contents of every attached file. */
+export function inlineFiles(text: string, files: InlinedFile[]): string {
+  if (files.length === 0) return text;
+  const blocks = files.map((file) => {
+    const fence = fenceFor(file.content);
+    const body = file.content.endsWith("\n") ? file.content : `${file.content}\n`;
+    return `### ${file.path}\n${fence}\n${body}${fence}`;
+  });
+  return `${text}\n\n## Attached Files\n\n${blocks.join("\n\n")}`;
+}
+
+/** SDK input for a turn: plain text, or text plus local images. */
+export function buildTurnInput(text: string, attachments: Attachments): Input {
+  const prompt = inlineFiles(text, attachments.files);
+  if (attachments.images.length === 0) return prompt;
+  return [
+    { type: "text", text: prompt },
+    ...attachments.images.map((image): UserInput => ({ type: "local_image", path: image.path })),
+  ];
+}
+
+/** The text parts of an input, e.g. to restate it to a fresh thread. */
+export function inputText(input: Input): string {
+  if (typeof input === "string") return input;
+  return input.flatMap((part) => (part.type === "text" ? [part.text] : [])).join("\n\n");
+}
+
+/** One line per attachment, for the progress log. */
+export function describeAttachments(attachments: Attachments): string[] {
+  return [
+    ...attachments.images.map((image) => `Attached image: ${image.path} (${image.bytes} bytes)`),
+    ...attachments.files.map((file) => `Attached file: ${file.path} (${file.bytes} bytes)`),
+  ];
+}
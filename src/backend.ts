@@ -0,0 +1,205 @@
+import {
+  Codex,
+  type Input,
+  type ThreadEvent,
+  type ThreadOptions,
+  type TurnOptions,
+} from "@openai/codex-sdk";
+import * as fs from "fs";
+import * as path from "path";
+
+// ============ Codex Backends ============
+
+/**
+ * The slice of the Codex SDK the server depends on. `Codex` from the SDK
+ * satisfies it as-is; the fake backend replays scripted events instead.
+ */
+export interface CodexBackend {
+  startThread(options?: ThreadOptions): BackendThread;
+  resumeThread(id: string, options?: ThreadOptions): BackendThread;
+}
+
+export interface BackendThread {
+  /** Populated once the first turn has emitted `thread.started`. */
+  readonly id: string | null;
+  runStreamed(input: Input, turnOptions?: TurnOptions): Promise<{ events: AsyncGenerator<ThreadEvent> }>;
+}
+
+/** `SUBCODEX_BACKEND=fake` selects the replay backend, scripted by `SUBCODEX_FAKE_SCRIPT`. */
+export const BACKEND_ENV = "SUBCODEX_BACKEND";
+export const FAKE_SCRIPT_ENV = "SUBCODEX_FAKE_SCRIPT";
+
+export function createBackend(): CodexBackend {
+  const kind = process.env[BACKEND_ENV] ?? "codex";
+  switch (kind) {
+    case "codex":
+      return new Codex();
+    case "fake": {
+      const scriptPath = process.env[FAKE_SCRIPT_ENV];
+      if (!scriptPath) {
+        throw new Error(`${BACKEND_ENV}=fake requires ${FAKE_SCRIPT_ENV} to point at a script file`);
+      }
+      return new FakeBackend(scriptPath);
+    }
+    default:
+      throw new Error(`Unknown ${BACKEND_ENV}: ${kind} (expected "codex" or "fake")`);
+  }
+}
+
+// ============ Fake Backend ============
+
+/** One scripted step of a turn. */
+export type FakeStep =
+  | { event: ThreadEvent; delayMs?: number }
+  /** Emit nothing until the turn is aborted (simulates a stall). */
+  | { stall: true; delayMs?: number }
+  /** Make the stream fail, like `codex exec` exiting non-zero. */
+  | { throw: string; delayMs?: number };
+
+export type FakeTurn =
+  | FakeStep[]
+  | {
+      steps?: FakeStep[];
+      /** JSONL file of recorded ThreadEvents (e.g. `codex exec --json` output), relative to the script. */
+      recording?: string;
+      /** Delay before each step that does not set its own. */
+      delayMs?: number;
+    };
+
+/** Script file format: turns are consumed in order by every runStreamed call. */
+export interface FakeScript {
+  turns: FakeTurn[];
+}
+
+interface FakeScriptState {
+  script: FakeScript;
+  baseDir: string;
+  nextTurn: number;
+  /** Inputs received per turn, for assertions. */
+  inputs: Input[];
+  /** `outputSchema` turn option received per turn, for assertions. */
+  outputSchemas: unknown[];
+}
+
+/** Shared per script path so threads created for recovery continue the same script. */
+const fakeScripts = new Map<string, FakeScriptState>();
+
+function loadFakeScript(scriptPath: string): FakeScriptState {
+  const resolved = path.resolve(scriptPath);
+  let state = fakeScripts.get(resolved);
+  if (!state) {
+    state = {
+      script: JSON.parse(fs.readFileSync(resolved, "utf8")) as FakeScript,
+      baseDir: path.dirname(resolved),
+      nextTurn: 0,
+      inputs: [],
+      outputSchemas: [],
+    };
+    fakeScripts.set(resolved, state);
+  }
+  return state;
+}
+
+/** Inputs the fake backend has received for a script, in order. */
+export function getFakeInputs(scriptPath: string): Input[] {
+  return fakeScripts.get(path.resolve(scriptPath))?.inputs ?? [];
+}
+
+/** `outputSchema` turn options the fake backend has received for a script, in order. */
+export function getFakeOutputSchemas(scriptPath: string): unknown[] {
+  return fakeScripts.get(path.resolve(scriptPath))?.outputSchemas ?? [];
+}
+
+/** Forget replay progress, e.g. between tests that reuse a script path. */
+export function resetFakeBackend() {
+  fakeScripts.clear();
+}
+
+function resolveSteps(turn: FakeTurn, baseDir: string): FakeStep[] {
+  if (Array.isArray(turn)) return turn;
+
+  const steps = [...(turn.steps ?? [])];
+  if (turn.recording) {
+    const lines = fs.readFileSync(path.resolve(baseDir, turn.recording), "utf8").split("\n");
+    for (const line of lines) {
+      if (line.trim()) steps.push({ event: JSON.parse(line) as ThreadEvent });
+    }
+  }
+  return steps.map((step) => ({ delayMs: turn.delayMs, ...step }));
+}
+
+function abortError(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new Error("The operation was aborted");
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError(signal));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+class FakeThread implements BackendThread {
+  constructor(
+    private readonly state: FakeScriptState,
+    private threadId: string | null
+  ) {}
+
+  get id(): string | null {
+    return this.threadId;
+  }
+
+  async runStreamed(input: Input, turnOptions: TurnOptions = {}) {
+    this.state.outputSchemas.push(turnOptions.outputSchema);
+    return { events: this.replay(input, turnOptions.signal) };
+  }
+
+  private async *replay(input: Input, signal?: AbortSignal): AsyncGenerator<ThreadEvent> {
+    const { state } = this;
+    const turn = state.script.turns[state.nextTurn++];
+    state.inputs.push(input);
+    if (!turn) {
+      throw new Error(`Fake backend script exhausted after ${state.script.turns.length} turns`);
+    }
+
+    for (const step of resolveSteps(turn, state.baseDir)) {
+      if (step.delayMs) await sleep(step.delayMs, signal);
+      if (signal?.aborted) throw abortError(signal);
+
+      if ("stall" in step) {
+        await sleep(2 ** 31 - 1, signal);
+      } else if ("throw" in step) {
+        throw new Error(step.throw);
+      } else {
+        if (step.event.type === "thread.started") {
+          this.threadId = step.event.thread_id;
+        }
+        yield step.event;
+      }
+    }
+  }
+}
+
+class FakeBackend implements CodexBackend {
+  private readonly state: FakeScriptState;
+
+  constructor(scriptPath: string) {
+    this.state = loadFakeScript(scriptPath);
+  }
+
+  startThread(): BackendThread {
+    return new FakeThread(this.state, null);
+  }
+
+  resumeThread(id: string): BackendThread {
+    return new FakeThread(this.state, id);
+  }
+}
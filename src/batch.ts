@@ -0,0 +1,148 @@
+import * as path from "path";
+import { matchesAnyGlob, toRelativePath } from "./glob.js";
+import { executeSession, type SessionArgs, type SessionHooks, type SessionResponse } from "./session.js";
+
+// ============ Parallel Fan-out ============
+
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+
+export interface BatchTaskSpec {
+  prompt: string;
+  cwd?: string;
+  /** Globs (relative to cwd) this task is expected to stay within. */
+  ownedPaths?: string[];
+}
+
+export interface BatchTaskOutcome<R> {
+  index: number;
+  result: R;
+  /** Absolute paths from the task's completed file_change items. */
+  touchedPaths: string[];
+}
+
+export interface PathConflict {
+  path: string;
+  tasks: number[];
+}
+
+export interface OwnershipViolation {
+  task: number;
+  path: string;
+}
+
+/**
+ * Run tasks with at most `limit` in flight. `execute` receives a callback to
+ * report every file path the task changed; a task that throws gets the result
+ * of `onError` instead of stopping the others.
+ */
+export async function runBatch<T extends BatchTaskSpec, R>(
+  tasks: T[],
+  limit: number,
+  execute: (task: T, index: number, recordPath: (filePath: string) => void) => Promise<R>,
+  onError: (error: unknown, index: number) => R
+): Promise<BatchTaskOutcome<R>[]> {
+  const outcomes: BatchTaskOutcome<R>[] = new Array(tasks.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++;
+      const task = tasks[index];
+      const touched = new Set<string>();
+      let result: R;
+      try {
+        result = await execute(task, index, (filePath) => {
+          touched.add(path.resolve(task.cwd ?? process.cwd(), filePath));
+        });
+      } catch (error) {
+        result = onError(error, index);
+      }
+      outcomes[index] = { index, result, touchedPaths: [...touched] };
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, tasks.length)) }, worker);
+  await Promise.all(workers);
+  return outcomes;
+}
+
+/** Paths changed by more than one task. */
+export function findPathConflicts(outcomes: BatchTaskOutcome<unknown>[]): PathConflict[] {
+  const owners = new Map<string, number[]>();
+  for (const outcome of outcomes) {
+    for (const filePath of outcome.touchedPaths) {
+      owners.set(filePath, [...(owners.get(filePath) ?? []), outcome.index]);
+    }
+  }
+  return [...owners.entries()]
+    .filter(([, tasks]) => tasks.length > 1)
+    .map(([filePath, tasks]) => ({ path: filePath, tasks }));
+}
+
+/** Paths a task changed outside its own `ownedPaths` globs. */
+export function findOwnershipViolations(
+  tasks: BatchTaskSpec[],
+  outcomes: BatchTaskOutcome<unknown>[]
+): OwnershipViolation[] {
+  return outcomes.flatMap((outcome) => {
+    const task = tasks[outcome.index];
+    if (!task.ownedPaths?.length) return [];
+    const root = task.cwd ?? process.cwd();
+    return outcome.touchedPaths
+      .filter((filePath) => !matchesAnyGlob(toRelativePath(root, filePath), task.ownedPaths!))
+      .map((filePath) => ({ task: outcome.index, path: filePath }));
+  });
+}
+
+// ============ Batch Tool ============
+
+export type BatchTask = SessionArgs & BatchTaskSpec;
+
+/**
+ * Run `tasks` as independent sessions and report every result in task order,
+ * with the files touched by more than one task or outside a task's ownedPaths.
+ */
+export async function executeBatch(tasks: BatchTask[], concurrency: number | undefined, hooks: SessionHooks = {}) {
+  const outcomes = await runBatch(
+    tasks,
+    concurrency ?? DEFAULT_BATCH_CONCURRENCY,
+    async (task, _index, recordPath): Promise<SessionResponse> => {
+      const changed: string[] = [];
+      const response = await executeSession({ ...task, threadId: undefined }, {
+        onEvent: (event) => {
+          if (event.type === "item.completed" && event.item.type === "file_change") {
+            changed.push(...event.item.changes.map((c) => c.path));
+          }
+          hooks.onEvent?.(event);
+        },
+        signal: hooks.signal,
+      });
+
+      // Report paths relative to the task's own cwd, even when it ran in a worktree
+      const taskCwd = task.cwd ?? process.cwd();
+      const ranIn = "worktree" in response && response.worktree ? response.worktree.path : taskCwd;
+      for (const filePath of changed) {
+        recordPath(path.resolve(taskCwd, path.relative(ranIn, path.resolve(ranIn, filePath))));
+      }
+      return response;
+    },
+    (error): SessionResponse => ({ error: error instanceof Error ? error.message : String(error), resultLevel: "ERROR" })
+  );
+
+  const byResult: Record<string, number> = {};
+  for (const { result } of outcomes) {
+    byResult[result.resultLevel] = (byResult[result.resultLevel] ?? 0) + 1;
+  }
+
+  return {
+    summary: { total: tasks.length, byResult },
+    conflicts: findPathConflicts(outcomes),
+    ownershipViolations: findOwnershipViolations(tasks, outcomes),
+    tasks: outcomes.map(({ index, result, touchedPaths }) => ({
+      index,
+      ownedPaths: tasks[index].ownedPaths,
+      touchedPaths,
+      result,
+    })),
+  };
+}
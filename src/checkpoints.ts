@@ -0,0 +1,210 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import {
+  restoreFromBaseline,
+  snapshotDirectory,
+  writeWorkingTree,
+  type DiffBaseline,
+} from "./diff.js";
+import { toRelativePath } from "./glob.js";
+import { getSessionRecords } from "./sessions.js";
+import { git } from "./worktree.js";
+
+// ============ File Checkpoints ============
+
+const CHECKPOINT_ROOT = path.join(os.homedir(), ".subcodex", "checkpoints");
+export const CHECKPOINT_REF_PREFIX = "refs/subcodex/checkpoints/";
+/** Snapshot copies kept on disk, newest first. */
+const MAX_SNAPSHOT_CHECKPOINTS = 20;
+/** Checkpoint refs kept per repository, newest first; each keeps its commit's objects from gc. */
+const MAX_GIT_CHECKPOINTS = 100;
+
+/**
+ * The state of a session's cwd before its first turn. In a git repository a
+ * commit of the working copy kept alive by a ref; elsewhere a copy of the files.
+ */
+export type Checkpoint =
+  | { kind: "git"; cwd: string; repoRoot: string; commit: string; ref: string }
+  | { kind: "snapshot"; cwd: string; dir: string; files: number; skipped: string[]; truncated?: boolean };
+
+export interface RollbackResult {
+  threadId: string;
+  /** 1-based position of the rolled back session among the thread's sessions. */
+  turn: number;
+  sessionId: string;
+  prompt: string;
+  checkpoint: Checkpoint;
+  /** Relative to the checkpoint's cwd. */
+  restored: string[];
+  deleted: string[];
+}
+
+// Checkpoint commits are internal, so they must not depend on the user's git identity
+const CHECKPOINT_GIT_IDENTITY = {
+  GIT_AUTHOR_NAME: "subcodex",
+  GIT_AUTHOR_EMAIL: "subcodex@localhost",
+  GIT_COMMITTER_NAME: "subcodex",
+  GIT_COMMITTER_EMAIL: "subcodex@localhost",
+};
+
+function pruneSnapshotCheckpoints(root: string) {
+  const dirs = fs.readdirSync(root, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => ({ dir: path.join(root, entry.name), mtimeMs: fs.statSync(path.join(root, entry.name)).mtimeMs }))
+    .sort((a, b) => b.mtimeMs - a.mtimeMs);
+  for (const { dir } of dirs.slice(MAX_SNAPSHOT_CHECKPOINTS)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+async function pruneGitCheckpoints(repoRoot: string) {
+  const refs = (
+    await git(repoRoot, ["for-each-ref", "--sort=-creatordate", "--format=%(refname)", CHECKPOINT_REF_PREFIX])
+  ).split("\n").filter(Boolean);
+  for (const ref of refs.slice(MAX_GIT_CHECKPOINTS)) {
+    await git(repoRoot, ["update-ref", "-d", ref]);
+  }
+}
+
+/** Persist a diff baseline as the checkpoint of `sessionId`. */
+export async function createCheckpoint(
+  baseline: DiffBaseline,
+  sessionId: string,
+  root: string = CHECKPOINT_ROOT
+): Promise<Checkpoint> {
+  if (baseline.kind === "git") {
+    const env = { ...process.env, ...CHECKPOINT_GIT_IDENTITY };
+    const commit = (
+      await git(baseline.repoRoot, ["commit-tree", baseline.tree, "-m", `subcodex checkpoint ${sessionId}`], env)
+    ).trim();
+    const ref = `${CHECKPOINT_REF_PREFIX}${sessionId}`;
+    await git(baseline.repoRoot, ["update-ref", ref, commit]);
+    await pruneGitCheckpoints(baseline.repoRoot);
+    return { kind: "git", cwd: baseline.cwd, repoRoot: baseline.repoRoot, commit, ref };
+  }
+
+  const dir = path.join(root, sessionId);
+  for (const [relative, content] of baseline.files) {
+    const filePath = path.join(dir, "files", relative);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  }
+  const checkpoint: Checkpoint = {
+    kind: "snapshot",
+    cwd: baseline.cwd,
+    dir,
+    files: baseline.files.size,
+    skipped: [...baseline.skipped],
+    truncated: baseline.truncated,
+  };
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, "checkpoint.json"), JSON.stringify(checkpoint, null, 2));
+  pruneSnapshotCheckpoints(root);
+  return checkpoint;
+}
+
+function readSnapshotFiles(dir: string): Map<string, Buffer> {
+  const filesDir = path.join(dir, "files");
+  const files = new Map<string, Buffer>();
+  const walk = (current: string) => {
+    for (const entry of fs.readdirSync(current, { withFileTypes: true })) {
+      const fullPath = path.join(current, entry.name);
+      if (entry.isDirectory()) walk(fullPath);
+      else if (entry.isFile()) files.set(toRelativePath(filesDir, fullPath), fs.readFileSync(fullPath));
+    }
+  };
+  if (fs.existsSync(filesDir)) walk(filesDir);
+  return files;
+}
+
+/** Paths (relative to cwd) that differ between the checkpoint and the current files. */
+async function changedSinceCheckpoint(checkpoint: Checkpoint, baseline: DiffBaseline): Promise<string[]> {
+  if (checkpoint.kind === "git") {
+    const currentTree = await writeWorkingTree(checkpoint.repoRoot);
+    const output = await git(checkpoint.cwd, ["diff", "--name-only", "--relative", "-z", `${checkpoint.commit}^{tree}`, currentTree]);
+    return output.split("\0").filter(Boolean);
+  }
+
+  if (baseline.kind !== "snapshot") return [];
+  const changed = [...baseline.files.keys()].filter((relative) => {
+    const filePath = path.resolve(checkpoint.cwd, relative);
+    return !fs.existsSync(filePath) || !fs.readFileSync(filePath).equals(baseline.files.get(relative)!);
+  });
+  // A snapshot cut off at the file cap cannot tell new files from ones it never reached
+  const added = baseline.truncated
+    ? []
+    : [...snapshotDirectory(checkpoint.cwd).files.keys()].filter(
+        (relative) => !baseline.files.has(relative) && !baseline.skipped.has(relative)
+      );
+  return [...changed, ...added].sort();
+}
+
+/**
+ * Put the checkpoint's cwd back the way it was: changed files are restored,
+ * files created since are deleted. Files the checkpoint did not capture
+ * (ignored by git, or skipped by the snapshot) are left alone.
+ */
+export async function restoreCheckpoint(checkpoint: Checkpoint): Promise<{ restored: string[]; deleted: string[] }> {
+  if (!fs.existsSync(checkpoint.cwd)) {
+    throw new Error(`Checkpoint directory no longer exists: ${checkpoint.cwd}`);
+  }
+  let baseline: DiffBaseline;
+  if (checkpoint.kind === "git") {
+    try {
+      await git(checkpoint.repoRoot, ["rev-parse", "--verify", "--quiet", checkpoint.ref]);
+    } catch {
+      throw new Error(`Checkpoint ref was pruned: ${checkpoint.ref}`);
+    }
+    baseline = { kind: "git", cwd: checkpoint.cwd, repoRoot: checkpoint.repoRoot, tree: checkpoint.commit };
+  } else {
+    if (!fs.existsSync(checkpoint.dir)) {
+      throw new Error(`Checkpoint snapshot was pruned: ${checkpoint.dir}`);
+    }
+    baseline = {
+      kind: "snapshot",
+      cwd: checkpoint.cwd,
+      files: readSnapshotFiles(checkpoint.dir),
+      skipped: new Set(checkpoint.skipped),
+      truncated: checkpoint.truncated ?? false,
+    };
+  }
+
+  const restored: string[] = [];
+  const deleted: string[] = [];
+  for (const relative of await changedSinceCheckpoint(checkpoint, baseline)) {
+    await restoreFromBaseline(baseline, relative);
+    (fs.existsSync(path.resolve(checkpoint.cwd, relative)) ? restored : deleted).push(relative);
+  }
+  return { restored, deleted };
+}
+
+/**
+ * Restore the checkpoint taken before `turn` (1-based, default: the latest)
+ * of a thread's recorded sessions, undoing that turn and every later one.
+ */
+export async function rollbackThread(threadId: string, turn?: number): Promise<RollbackResult> {
+  const records = getSessionRecords(threadId).filter((r) => r.threadId === threadId);
+  if (records.length === 0) {
+    throw new Error(`No recorded sessions for thread: ${threadId}`);
+  }
+  const index = turn === undefined ? records.length - 1 : turn - 1;
+  const record = records[index];
+  if (!record) {
+    throw new Error(`Thread ${threadId} has ${records.length} turn(s); cannot roll back turn ${turn}`);
+  }
+  if (!record.checkpoint) {
+    throw new Error(`No checkpoint was taken before turn ${index + 1} (session ${record.sessionId})`);
+  }
+
+  const { restored, deleted } = await restoreCheckpoint(record.checkpoint);
+  return {
+    threadId,
+    turn: index + 1,
+    sessionId: record.sessionId,
+    prompt: record.prompt,
+    checkpoint: record.checkpoint,
+    restored,
+    deleted,
+  };
+}
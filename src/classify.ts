@@ -0,0 +1,132 @@
+import type { ThreadItem } from "@openai/codex-sdk";
+
+// ============ Result Classification ============
+
+/** How much failure detail goes into a response: reasons only, plus structured failures, or plus a markdown report. */
+export const VERBOSITIES = ["compact", "full", "markdown"] as const;
+export type Verbosity = (typeof VERBOSITIES)[number];
+
+export const DEFAULT_VERBOSITY: Verbosity = "compact";
+
+const OUTPUT_TAIL_LINES = 20;
+const OUTPUT_TAIL_CHARS = 2000;
+
+/** A `turn.failed` or stream `error` event; these never produce an item. */
+export interface TurnError {
+  type: "turn.failed" | "error";
+  message: string;
+}
+
+export interface FailedCommand {
+  command: string;
+  exitCode: number | null;
+  /** Last lines of the command's output. */
+  outputTail: string;
+}
+
+/** Everything that went wrong during a session, whether or not it changed the result level. */
+export interface SessionFailures {
+  turnFailures: string[];
+  /** Stream `error` events and `error` items. */
+  streamErrors: string[];
+  failedCommands: FailedCommand[];
+  /** `kind: path` of each change in a failed file_change item. */
+  failedFileChanges: string[];
+}
+
+export type TurnClassification = "PASS" | "PARTIAL" | "FAIL";
+
+function outputTail(output: string): string {
+  const tail = output.trimEnd().split("\n").slice(-OUTPUT_TAIL_LINES).join("\n");
+  return tail.length > OUTPUT_TAIL_CHARS ? `...${tail.slice(-OUTPUT_TAIL_CHARS)}` : tail;
+}
+
+export function collectFailures(items: ThreadItem[], turnErrors: TurnError[]): SessionFailures {
+  const failures: SessionFailures = {
+    turnFailures: turnErrors.filter((e) => e.type === "turn.failed").map((e) => e.message),
+    streamErrors: turnErrors.filter((e) => e.type === "error").map((e) => e.message),
+    failedCommands: [],
+    failedFileChanges: [],
+  };
+  for (const item of items) {
+    if (item.type === "error") {
+      failures.streamErrors.push(item.message);
+    } else if (item.type === "command_execution" && (item.status === "failed" || (item.exit_code ?? 0) !== 0)) {
+      failures.failedCommands.push({
+        command: item.command,
+        exitCode: item.exit_code ?? null,
+        outputTail: outputTail(item.aggregated_output),
+      });
+    } else if (item.type === "file_change" && item.status === "failed") {
+      failures.failedFileChanges.push(...item.changes.map((c) => `${c.kind}: ${c.path}`));
+    }
+  }
+  return failures;
+}
+
+export function hasFailures(failures: SessionFailures): boolean {
+  return Object.values(failures).some((list) => list.length > 0);
+}
+
+/**
+ * Classify what the turns produced. A failed turn, or file changes that all
+ * failed, is FAIL; some failed file changes is PARTIAL. Failed commands alone
+ * do not count (Codex often retries with another command), nor do stream
+ * errors once Codex has replied. Every downgrade comes with a reason.
+ */
+export function classifyTurns(
+  items: ThreadItem[],
+  failures: SessionFailures
+): { level: TurnClassification; reasons: string[] } {
+  const reasons: string[] = [];
+  let level: TurnClassification = "PASS";
+
+  for (const message of failures.turnFailures) {
+    reasons.push(`turn failed: ${message}`);
+    level = "FAIL";
+  }
+
+  const fileChanges = items.filter((i) => i.type === "file_change");
+  const failedFileChanges = fileChanges.filter((i) => i.type === "file_change" && i.status === "failed");
+  if (failedFileChanges.length > 0) {
+    const allFailed = failedFileChanges.length === fileChanges.length;
+    reasons.push(
+      `${failedFileChanges.length} of ${fileChanges.length} file changes failed (${failures.failedFileChanges.join(", ")})`
+    );
+    if (allFailed) level = "FAIL";
+    else if (level === "PASS") level = "PARTIAL";
+  }
+
+  const hasAgentMessage = items.some((i) => i.type === "agent_message");
+  if (!hasAgentMessage && failures.streamErrors.length > 0) {
+    reasons.push(`no final message after error: ${failures.streamErrors[failures.streamErrors.length - 1]}`);
+    level = "FAIL";
+  }
+
+  return { level, reasons };
+}
+
+/** Markdown report of a session result for `verbosity: "markdown"`. */
+export function formatMarkdownReport(resultLevel: string, reasons: string[], failures: SessionFailures): string {
+  const lines = [`**Result:** ${resultLevel}`];
+  if (reasons.length > 0) {
+    lines.push("", "**Reasons:**", ...reasons.map((r) => `- ${r}`));
+  }
+  if (failures.turnFailures.length > 0) {
+    lines.push("", "**Turn failures:**", ...failures.turnFailures.map((m) => `- ${m}`));
+  }
+  if (failures.streamErrors.length > 0) {
+    lines.push("", "**Errors:**", ...failures.streamErrors.map((m) => `- ${m}`));
+  }
+  if (failures.failedFileChanges.length > 0) {
+    lines.push("", "**Failed file changes:**", ...failures.failedFileChanges.map((c) => `- ${c}`));
+  }
+  if (failures.failedCommands.length > 0) {
+    lines.push("", "**Failed commands:**");
+    for (const c of failures.failedCommands) {
+      lines.push("", `- \`${c.command}\` (exit ${c.exitCode ?? "?"})`);
+      if (c.outputTail) lines.push("", "```", c.outputTail, "```");
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,314 @@
+import type { ApprovalMode, SandboxMode } from "@openai/codex-sdk";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import {
+  RECOVERY_LANGUAGES,
+  RECOVERY_STRATEGIES,
+  type RecoveryLanguage,
+  type RecoveryStrategy,
+} from "./recovery.js";
+import { SCOPE_ACTIONS, type ScopeAction } from "./scope.js";
+import { VERBOSITIES, type Verbosity } from "./classify.js";
+import type { LogSettings } from "./logs.js";
+import { compileRedactionSettings, type RedactionSettings } from "./redact.js";
+
+// ============ Config Files ============
+
+export const USER_CONFIG_PATH = path.join(os.homedir(), ".subcodex", "config.json");
+export const PROJECT_CONFIG_FILE = ".subcodex.json";
+
+export const EXECUTION_LEVELS = ["L1", "L2", "L3", "L4"] as const;
+export type ExecutionLevel = (typeof EXECUTION_LEVELS)[number];
+
+const SANDBOX_MODES: readonly SandboxMode[] = ["read-only", "workspace-write", "danger-full-access"];
+const APPROVAL_POLICIES: readonly ApprovalMode[] = ["never", "on-request", "on-failure", "untrusted"];
+
+/**
+ * Per-level defaults. Every field is optional; tool arguments always win
+ * over the profile.
+ */
+export interface LevelProfile {
+  model?: string;
+  sandboxMode?: SandboxMode;
+  approvalPolicy?: ApprovalMode;
+  /** Idle stall timeout: no item in flight. */
+  stallTimeoutMinutes?: number;
+  /** Stall timeout while a command is running (default: max(stall timeout, 30)). */
+  commandTimeoutMinutes?: number;
+  /** Stall timeout while the model is reasoning (default: stall timeout). */
+  reasoningTimeoutMinutes?: number;
+  /** Hard wall-clock budget for a whole run, including recovery and auto-fix turns. */
+  maxDurationMinutes?: number;
+  /** Stop starting turns once the session's input tokens exceed this. */
+  maxInputTokens?: number;
+  /** Stop starting turns once the session's output tokens exceed this. */
+  maxOutputTokens?: number;
+  maxRecoveryAttempts?: number;
+  /** Strategy per recovery attempt, the last one repeating (default: ["nudge"]). */
+  recoveryStrategies?: RecoveryStrategy[];
+  /** Language of the built-in recovery prompts (default: en). */
+  recoveryLanguage?: RecoveryLanguage;
+  /** Custom nudge prompt, sent instead of the built-in one. */
+  recoveryPrompt?: string;
+  /** Wait before the second recovery attempt, doubling after that (default: 0). */
+  recoveryBackoffSeconds?: number;
+  /** Globs (relative to cwd) Codex may change; unset allows everything not denied. */
+  allowedPaths?: string[];
+  /** Globs (relative to cwd) Codex must not change. */
+  deniedPaths?: string[];
+  /** On a file change outside the scope: flag it, abort the session, or revert the file (default: flag). */
+  scopeAction?: ScopeAction;
+  /** Return unified diffs of changed files (default: false). */
+  includeDiff?: boolean;
+  /** Checkpoint cwd before every run/reply/fork so `rollback` can restore it (default: in git repositories only). */
+  checkpoints?: boolean;
+  /** Cap on the total size of returned diffs (default: 65536). */
+  maxDiffBytes?: number;
+  /** JSON Schema every final message at this level must follow. */
+  outputSchema?: Record<string, unknown>;
+  /** Re-asks when the final message does not match outputSchema (default: 2). */
+  outputSchemaRetries?: number;
+  /** Failure detail in responses: compact, full or markdown (default: compact). */
+  verbosity?: Verbosity;
+  /** Prepended to the prompt when a new thread is started at this level. */
+  promptPreamble?: string;
+  /** Shell commands run in cwd after each session; any failure means FAIL. */
+  verify?: string[];
+  verifyTimeoutMinutes?: number;
+  /** Times to send verification failures back to the thread before giving up. */
+  autoFixAttempts?: number;
+}
+
+export interface SubcodexConfig {
+  /** Level used when a call does not specify one (default: L2). */
+  defaultLevel?: ExecutionLevel;
+  /** Applied to every level, below the level's own profile. */
+  defaults?: LevelProfile;
+  levels?: Partial<Record<ExecutionLevel, LevelProfile>>;
+  /** Retention of `~/.claude/codex-logs` and the optional JSONL event log. */
+  logs?: LogSettings;
+  /** Secret redaction in progress logs, the session store and tool results. */
+  redaction?: RedactionSettings;
+}
+
+/** Built-in profile, matching the behavior before config files existed. */
+const BUILTIN_PROFILE: LevelProfile = {
+  stallTimeoutMinutes: 5,
+  maxRecoveryAttempts: 2,
+};
+
+function assertOneOf<T extends string>(
+  value: unknown,
+  allowed: readonly T[],
+  field: string
+): asserts value is T | undefined {
+  if (value !== undefined && !allowed.includes(value as T)) {
+    throw new Error(`${field} must be one of ${allowed.join(", ")}`);
+  }
+}
+
+function assertType(value: unknown, type: "string" | "number" | "boolean", field: string) {
+  if (value !== undefined && typeof value !== type) {
+    throw new Error(`${field} must be a ${type}`);
+  }
+}
+
+function assertStringArray(value: unknown, field: string) {
+  if (value !== undefined && (!Array.isArray(value) || value.some((v) => typeof v !== "string"))) {
+    throw new Error(`${field} must be an array of strings`);
+  }
+}
+
+function assertArrayOf<T extends string>(value: unknown, allowed: readonly T[], field: string) {
+  if (value !== undefined && (!Array.isArray(value) || value.some((v) => !allowed.includes(v as T)))) {
+    throw new Error(`${field} must be an array of ${allowed.join(", ")}`);
+  }
+}
+
+function validateProfile(profile: unknown, field: string): LevelProfile {
+  if (profile === undefined) return {};
+  if (typeof profile !== "object" || profile === null || Array.isArray(profile)) {
+    throw new Error(`${field} must be an object`);
+  }
+  const p = profile as Record<string, unknown>;
+  assertType(p.model, "string", `${field}.model`);
+  assertOneOf(p.sandboxMode, SANDBOX_MODES, `${field}.sandboxMode`);
+  assertOneOf(p.approvalPolicy, APPROVAL_POLICIES, `${field}.approvalPolicy`);
+  assertType(p.stallTimeoutMinutes, "number", `${field}.stallTimeoutMinutes`);
+  assertType(p.commandTimeoutMinutes, "number", `${field}.commandTimeoutMinutes`);
+  assertType(p.reasoningTimeoutMinutes, "number", `${field}.reasoningTimeoutMinutes`);
+  assertType(p.maxDurationMinutes, "number", `${field}.maxDurationMinutes`);
+  assertType(p.maxInputTokens, "number", `${field}.maxInputTokens`);
+  assertType(p.maxOutputTokens, "number", `${field}.maxOutputTokens`);
+  assertType(p.maxRecoveryAttempts, "number", `${field}.maxRecoveryAttempts`);
+  assertArrayOf(p.recoveryStrategies, RECOVERY_STRATEGIES, `${field}.recoveryStrategies`);
+  assertOneOf(p.recoveryLanguage, RECOVERY_LANGUAGES, `${field}.recoveryLanguage`);
+  assertType(p.recoveryPrompt, "string", `${field}.recoveryPrompt`);
+  assertType(p.recoveryBackoffSeconds, "number", `${field}.recoveryBackoffSeconds`);
+  assertStringArray(p.allowedPaths, `${field}.allowedPaths`);
+  assertStringArray(p.deniedPaths, `${field}.deniedPaths`);
+  assertOneOf(p.scopeAction, SCOPE_ACTIONS, `${field}.scopeAction`);
+  assertType(p.includeDiff, "boolean", `${field}.includeDiff`);
+  assertType(p.checkpoints, "boolean", `${field}.checkpoints`);
+  assertType(p.maxDiffBytes, "number", `${field}.maxDiffBytes`);
+  if (p.outputSchema !== undefined && (typeof p.outputSchema !== "object" || p.outputSchema === null || Array.isArray(p.outputSchema))) {
+    throw new Error(`${field}.outputSchema must be an object`);
+  }
+  assertType(p.outputSchemaRetries, "number", `${field}.outputSchemaRetries`);
+  assertOneOf(p.verbosity, VERBOSITIES, `${field}.verbosity`);
+  assertType(p.promptPreamble, "string", `${field}.promptPreamble`);
+  assertStringArray(p.verify, `${field}.verify`);
+  assertType(p.verifyTimeoutMinutes, "number", `${field}.verifyTimeoutMinutes`);
+  assertType(p.autoFixAttempts, "number", `${field}.autoFixAttempts`);
+  return p as LevelProfile;
+}
+
+function validateLogSettings(logs: unknown): LogSettings | undefined {
+  if (logs === undefined) return undefined;
+  if (typeof logs !== "object" || logs === null || Array.isArray(logs)) {
+    throw new Error("logs must be an object");
+  }
+  const l = logs as Record<string, unknown>;
+  assertType(l.maxAgeDays, "number", "logs.maxAgeDays");
+  assertType(l.maxCount, "number", "logs.maxCount");
+  assertType(l.maxTotalMB, "number", "logs.maxTotalMB");
+  assertType(l.eventLog, "boolean", "logs.eventLog");
+  return l as LogSettings;
+}
+
+function validateRedactionSettings(redaction: unknown): RedactionSettings | undefined {
+  if (redaction === undefined) return undefined;
+  if (typeof redaction !== "object" || redaction === null || Array.isArray(redaction)) {
+    throw new Error("redaction must be an object");
+  }
+  const r = redaction as Record<string, unknown>;
+  assertType(r.enabled, "boolean", "redaction.enabled");
+  assertType(r.builtin, "boolean", "redaction.builtin");
+  assertStringArray(r.patterns, "redaction.patterns");
+  assertStringArray(r.literals, "redaction.literals");
+  compileRedactionSettings(r as RedactionSettings);
+  return r as RedactionSettings;
+}
+
+function validateConfig(raw: unknown): SubcodexConfig {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error("config must be a JSON object");
+  }
+  const config = raw as Record<string, unknown>;
+  assertOneOf(config.defaultLevel, EXECUTION_LEVELS, "defaultLevel");
+
+  const levels: Partial<Record<ExecutionLevel, LevelProfile>> = {};
+  if (config.levels !== undefined) {
+    if (typeof config.levels !== "object" || config.levels === null) {
+      throw new Error("levels must be an object");
+    }
+    for (const [level, profile] of Object.entries(config.levels)) {
+      assertOneOf(level, EXECUTION_LEVELS, "levels key");
+      levels[level] = validateProfile(profile, `levels.${level}`);
+    }
+  }
+
+  return {
+    ...config,
+    defaultLevel: config.defaultLevel,
+    defaults: validateProfile(config.defaults, "defaults"),
+    levels,
+    logs: validateLogSettings(config.logs),
+    redaction: validateRedactionSettings(config.redaction),
+  };
+}
+
+function readConfigFile(filePath: string): SubcodexConfig {
+  if (!fs.existsSync(filePath)) return {};
+  try {
+    return validateConfig(JSON.parse(fs.readFileSync(filePath, "utf8")));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid subcodex config ${filePath}: ${message}`);
+  }
+}
+
+/** Codex runs `read-only` when no sandbox mode is set. */
+function sandboxRank(mode: SandboxMode | undefined): number {
+  return SANDBOX_MODES.indexOf(mode ?? "read-only");
+}
+
+/**
+ * A project profile as far as a checked-out repository may set it: no
+ * `verify` commands, which run outside the sandbox, and no sandbox mode
+ * looser than `userSandbox`.
+ */
+function trustProjectProfile(profile: LevelProfile | undefined, userSandbox: SandboxMode | undefined): LevelProfile | undefined {
+  if (!profile) return undefined;
+  const { verify: _verify, sandboxMode, ...rest } = profile;
+  return sandboxMode && sandboxRank(sandboxMode) <= sandboxRank(userSandbox) ? { ...rest, sandboxMode } : rest;
+}
+
+/**
+ * Load user-scope config merged with project-scope config from `cwd`
+ * (project wins, except where a repository must not be trusted). Files are
+ * re-read on every call so edits apply immediately.
+ */
+export function loadConfig(cwd?: string): SubcodexConfig {
+  const user = readConfigFile(USER_CONFIG_PATH);
+  const project = cwd ? readConfigFile(path.join(cwd, PROJECT_CONFIG_FILE)) : {};
+  const projectDefaults = trustProjectProfile(project.defaults, user.defaults?.sandboxMode);
+
+  const levels: Partial<Record<ExecutionLevel, LevelProfile>> = { ...user.levels };
+  for (const level of EXECUTION_LEVELS) {
+    const projectLevel = trustProjectProfile(
+      project.levels?.[level],
+      user.levels?.[level]?.sandboxMode ?? user.defaults?.sandboxMode
+    );
+    if (projectLevel) {
+      levels[level] = { ...levels[level], ...projectLevel };
+    }
+  }
+
+  return {
+    ...user,
+    ...project,
+    defaultLevel: project.defaultLevel ?? user.defaultLevel,
+    defaults: { ...user.defaults, ...projectDefaults },
+    levels,
+    // Retention deletes files outside the repository, so only the user config
+    // sets it; a project can still turn on the event log
+    logs: user.logs || project.logs
+      ? {
+          maxAgeDays: user.logs?.maxAgeDays,
+          maxCount: user.logs?.maxCount,
+          maxTotalMB: user.logs?.maxTotalMB,
+          eventLog: project.logs?.eventLog ?? user.logs?.eventLog,
+        }
+      : undefined,
+    // A project can add patterns and literals; turning redaction or the
+    // built-in detectors off is left to the user config
+    redaction: user.redaction || project.redaction
+      ? {
+          enabled: user.redaction?.enabled,
+          builtin: user.redaction?.builtin,
+          patterns: [...(user.redaction?.patterns ?? []), ...(project.redaction?.patterns ?? [])],
+          literals: [...(user.redaction?.literals ?? []), ...(project.redaction?.literals ?? [])],
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Resolve the effective profile for a level:
+ * built-in < config defaults < config level profile.
+ */
+export function resolveProfile(config: SubcodexConfig, level: ExecutionLevel): LevelProfile {
+  return {
+    ...BUILTIN_PROFILE,
+    ...stripUndefined(config.defaults ?? {}),
+    ...stripUndefined(config.levels?.[level] ?? {}),
+  };
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined)
+  ) as Partial<T>;
+}
@@ -0,0 +1,231 @@
+import * as fs from "fs";
+import * as path from "path";
+import { displayPath, fenceFor, resolveFilePatterns } from "./attachments.js";
+import { git } from "./worktree.js";
+
+// ============ Context Packing ============
+
+export const DEFAULT_CONTEXT_MAX_TOKENS = 8000;
+export const INSTRUCTION_FILES = ["AGENTS.md", "CLAUDE.md"];
+/** Rough size of a token; good enough to keep the packed prompt within budget. */
+const CHARS_PER_TOKEN = 4;
+/** Below this, a section is left out rather than cut to a stub. */
+const MIN_SECTION_TOKENS = 64;
+
+/** What to gather from cwd into the prompt of a `run`. */
+export interface ContextOptions {
+  /** AGENTS.md and CLAUDE.md from cwd (default: true). */
+  instructions?: boolean;
+  /** `git status --short --branch` (default: true). */
+  gitStatus?: boolean;
+  /** `git diff HEAD`: staged and unstaged changes (default: true). */
+  gitDiff?: boolean;
+  /** File paths or globs (relative to cwd). */
+  files?: string[];
+  /** Estimated tokens for all sections together (default: 8000). */
+  maxTokens?: number;
+}
+
+export type ContextSectionKind = "instructions" | "git-status" | "git-diff" | "file";
+
+export interface ContextEntry {
+  kind: ContextSectionKind;
+  /** File path, or the git command. */
+  source: string;
+  /** Estimated tokens of the section as packed. */
+  tokens: number;
+  /** Estimated tokens of the full content. */
+  originalTokens: number;
+  truncated: boolean;
+}
+
+export interface ContextReport {
+  maxTokens: number;
+  tokens: number;
+  included: ContextEntry[];
+  omitted: { kind: ContextSectionKind; source: string; reason: string }[];
+}
+
+interface ContextSection {
+  kind: ContextSectionKind;
+  source: string;
+  title: string;
+  /** Info string of the code fence, e.g. `diff`. */
+  language: string;
+  content: string;
+  originalTokens: number;
+  /** Set when only the start of a large file was read. */
+  partial?: boolean;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function renderSection(section: ContextSection, content: string, note?: string): string {
+  const body = content.endsWith("\n") ? content : `${content}\n`;
+  const fence = fenceFor(content);
+  const lines = [`### ${section.title}`, `${fence}${section.language}`, `${body}${fence}`];
+  if (note) lines.push(note);
+  return lines.join("\n");
+}
+
+/** Cut `content` to at most `maxChars`, at a line boundary when there is one. */
+function truncateContent(content: string, maxChars: number): string {
+  if (content.length <= maxChars) return content;
+  const cut = content.slice(0, Math.max(0, maxChars));
+  const lastNewline = cut.lastIndexOf("\n");
+  return lastNewline > 0 ? cut.slice(0, lastNewline + 1) : cut;
+}
+
+/** Read at most `maxBytes` of a file; null for binary files. */
+function readTextPrefix(filePath: string, maxBytes: number): { content: string; partial: boolean } | null {
+  const { size } = fs.statSync(filePath);
+  const length = Math.min(size, maxBytes);
+  const buffer = Buffer.alloc(length);
+  const fd = fs.openSync(filePath, "r");
+  try {
+    fs.readSync(fd, buffer, 0, length, 0);
+  } finally {
+    fs.closeSync(fd);
+  }
+  if (buffer.includes(0)) return null;
+  return { content: buffer.toString("utf8"), partial: size > length };
+}
+
+async function gitOutput(cwd: string, args: string[]): Promise<string | null> {
+  try {
+    return await git(cwd, args);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Gather the sections asked for, in priority order: instructions, git status,
+ * named files, then the diff (usually the largest, so it gives way first).
+ */
+async function gatherSections(
+  options: ContextOptions,
+  cwd: string,
+  maxBytes: number,
+  omitted: ContextReport["omitted"]
+): Promise<ContextSection[]> {
+  const sections: ContextSection[] = [];
+  const addFile = (kind: "instructions" | "file", absolutePath: string, title: string) => {
+    const source = displayPath(cwd, absolutePath);
+    const text = readTextPrefix(absolutePath, maxBytes);
+    if (!text) {
+      omitted.push({ kind, source, reason: "not a text file" });
+      return;
+    }
+    sections.push({
+      kind,
+      source,
+      title,
+      language: "",
+      content: text.content,
+      originalTokens: Math.ceil(fs.statSync(absolutePath).size / CHARS_PER_TOKEN),
+      partial: text.partial,
+    });
+  };
+
+  if (options.instructions ?? true) {
+    for (const name of INSTRUCTION_FILES) {
+      const filePath = path.join(cwd, name);
+      if (fs.existsSync(filePath) && fs.statSync(filePath).isFile()) {
+        addFile("instructions", filePath, `Project Instructions: ${name}`);
+      }
+    }
+  }
+
+  const wantsGit = (options.gitStatus ?? true) || (options.gitDiff ?? true);
+  const inGitRepo = wantsGit && (await gitOutput(cwd, ["rev-parse", "--is-inside-work-tree"]))?.trim() === "true";
+  if (options.gitStatus ?? true) {
+    const source = "git status --short --branch";
+    const status = inGitRepo ? await gitOutput(cwd, ["status", "--short", "--branch"]) : null;
+    if (status === null) omitted.push({ kind: "git-status", source, reason: "not a git repository" });
+    else sections.push({ kind: "git-status", source, title: "Git Status", language: "", content: status, originalTokens: estimateTokens(status) });
+  }
+
+  for (const filePath of resolveFilePatterns(options.files ?? [], cwd)) {
+    addFile("file", filePath, `File: ${displayPath(cwd, filePath)}`);
+  }
+
+  if (options.gitDiff ?? true) {
+    const source = "git diff HEAD";
+    // A repository without commits has no HEAD; its changes are all in the index
+    const diff = inGitRepo
+      ? (await gitOutput(cwd, ["diff", "HEAD"])) ?? (await gitOutput(cwd, ["diff", "--cached"]))
+      : null;
+    if (diff === null) omitted.push({ kind: "git-diff", source, reason: "not a git repository" });
+    else if (!diff.trim()) omitted.push({ kind: "git-diff", source, reason: "no changes" });
+    else sections.push({ kind: "git-diff", source, title: "Git Diff", language: "diff", content: diff, originalTokens: estimateTokens(diff) });
+  }
+  return sections;
+}
+
+/**
+ * Build the context block appended to a prompt and a report of what went in.
+ * Sections are packed in priority order until `maxTokens` is used up; the one
+ * that does not fit is cut at a line boundary, and any after it are left out.
+ * Throws when a named file is missing or a glob matches nothing.
+ */
+export async function packContext(
+  options: ContextOptions,
+  cwd: string
+): Promise<{ text: string; report: ContextReport }> {
+  const maxTokens = options.maxTokens ?? DEFAULT_CONTEXT_MAX_TOKENS;
+  const omitted: ContextReport["omitted"] = [];
+  const sections = await gatherSections(options, cwd, (maxTokens + 1) * CHARS_PER_TOKEN, omitted);
+
+  const blocks: string[] = [];
+  const included: ContextEntry[] = [];
+  let used = 0;
+  for (const section of sections) {
+    const remaining = maxTokens - used;
+    if (remaining < MIN_SECTION_TOKENS) {
+      omitted.push({ kind: section.kind, source: section.source, reason: "token budget exhausted" });
+      continue;
+    }
+
+    let block = renderSection(section, section.content);
+    let truncated = Boolean(section.partial);
+    if (estimateTokens(block) > remaining || section.partial) {
+      const note = `_Truncated to fit the context budget (~${section.originalTokens} tokens in full)._`;
+      const overhead = renderSection(section, "", note).length;
+      const content = truncateContent(section.content, remaining * CHARS_PER_TOKEN - overhead);
+      if (!content.trim()) {
+        omitted.push({ kind: section.kind, source: section.source, reason: "token budget exhausted" });
+        continue;
+      }
+      block = renderSection(section, content, note);
+      truncated = true;
+    }
+
+    const tokens = estimateTokens(block);
+    used += tokens;
+    blocks.push(block);
+    included.push({ kind: section.kind, source: section.source, tokens, originalTokens: section.originalTokens, truncated });
+  }
+
+  const text = blocks.length > 0
+    ? `## Context\n\nGathered from ${cwd} when the task was handed over; check the files for their current state.\n\n${blocks.join("\n\n")}`
+    : "";
+  return { text, report: { maxTokens, tokens: used, included, omitted } };
+}
+
+/** The prompt followed by its packed context. */
+export function appendContext(prompt: string, contextText: string): string {
+  return contextText ? `${prompt}\n\n${contextText}` : prompt;
+}
+
+/** One line per section, for the progress log. */
+export function describeContext(report: ContextReport): string[] {
+  return [
+    ...report.included.map((entry) =>
+      `Context: ${entry.source} (~${entry.tokens} tokens${entry.truncated ? `, truncated from ~${entry.originalTokens}` : ""})`
+    ),
+    ...report.omitted.map((entry) => `Context omitted: ${entry.source} (${entry.reason})`),
+  ];
+}
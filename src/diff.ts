@@ -0,0 +1,265 @@
+import type { ThreadItem } from "@openai/codex-sdk";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import * as crypto from "crypto";
+import { toRelativePath } from "./glob.js";
+import { git } from "./worktree.js";
+
+// ============ File Change Diffs ============
+
+const execFileAsync = promisify(execFile);
+
+export const DEFAULT_MAX_DIFF_BYTES = 64 * 1024;
+const SNAPSHOT_MAX_FILES = 5000;
+const SNAPSHOT_MAX_FILE_BYTES = 1024 * 1024;
+const SNAPSHOT_SKIP_DIRS = new Set([".git", "node_modules"]);
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+/**
+ * The state of `cwd` before Codex ran. In a git repository this is a tree
+ * object of the working copy (written through a temporary index, so the
+ * user's index is untouched); elsewhere an in-memory copy of the files.
+ */
+export type DiffBaseline =
+  | { kind: "git"; cwd: string; repoRoot: string; tree: string }
+  | { kind: "snapshot"; cwd: string; files: Map<string, Buffer>; skipped: Set<string>; truncated: boolean };
+
+export interface DiffStatEntry {
+  path: string;
+  added: number;
+  removed: number;
+  binary?: boolean;
+}
+
+export interface FileDiff {
+  path: string;
+  diff: string;
+  truncated?: boolean;
+}
+
+/** Write the working copy of the repository containing `cwd` to a tree object. */
+export async function writeWorkingTree(repoRoot: string): Promise<string> {
+  const indexPath = path.resolve(repoRoot, (await git(repoRoot, ["rev-parse", "--git-path", "index"])).trim());
+  const tempIndex = path.join(os.tmpdir(), `subcodex-index-${crypto.randomUUID()}`);
+  try {
+    // Starting from the real index keeps `add -A` fast (unchanged files are not re-hashed)
+    if (fs.existsSync(indexPath)) fs.copyFileSync(indexPath, tempIndex);
+    const env = { ...process.env, GIT_INDEX_FILE: tempIndex };
+    await git(repoRoot, ["add", "-A"], env);
+    return (await git(repoRoot, ["write-tree"], env)).trim();
+  } finally {
+    fs.rmSync(tempIndex, { force: true });
+  }
+}
+
+/**
+ * Copy the files below `cwd` into memory. The walk stops at
+ * `SNAPSHOT_MAX_FILES`; `truncated` then says files past it were not seen.
+ */
+export function snapshotDirectory(cwd: string): { files: Map<string, Buffer>; skipped: Set<string>; truncated: boolean } {
+  const files = new Map<string, Buffer>();
+  const skipped = new Set<string>();
+  let truncated = false;
+  const walk = (dir: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (truncated) return;
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!SNAPSHOT_SKIP_DIRS.has(entry.name)) walk(fullPath);
+      } else if (entry.isFile()) {
+        if (files.size >= SNAPSHOT_MAX_FILES) {
+          truncated = true;
+        } else if (fs.statSync(fullPath).size > SNAPSHOT_MAX_FILE_BYTES) {
+          skipped.add(toRelativePath(cwd, fullPath));
+        } else {
+          files.set(toRelativePath(cwd, fullPath), fs.readFileSync(fullPath));
+        }
+      }
+    }
+  };
+  walk(cwd);
+  return { files, skipped, truncated };
+}
+
+/**
+ * Capture `cwd` before a session. Outside a git repository the directory is
+ * only copied when `snapshotFiles` is set, since that reads every file.
+ */
+export async function captureDiffBaseline(cwd: string, snapshotFiles: boolean): Promise<DiffBaseline | undefined> {
+  let repoRoot: string | undefined;
+  try {
+    repoRoot = (await git(cwd, ["rev-parse", "--show-toplevel"])).trim();
+  } catch {
+    // Not a repository
+  }
+  if (repoRoot) {
+    return { kind: "git", cwd, repoRoot, tree: await writeWorkingTree(repoRoot) };
+  }
+  return snapshotFiles ? { kind: "snapshot", cwd, ...snapshotDirectory(cwd) } : undefined;
+}
+
+/** Paths (relative to cwd) of completed file_change items, in first-touched order. */
+export function changedPaths(cwd: string, items: ThreadItem[]): string[] {
+  const paths = items.flatMap((item) =>
+    item.type === "file_change" && item.status === "completed"
+      ? item.changes.map((change) => toRelativePath(cwd, change.path))
+      : []
+  );
+  return [...new Set(paths)].filter((p) => !p.startsWith("../"));
+}
+
+/** True when git ignores `relative`; `add -A` then left it out of the baseline tree. */
+async function isGitIgnored(repoRoot: string, fromRoot: string): Promise<boolean> {
+  try {
+    await git(repoRoot, ["check-ignore", "-q", "--no-index", "--", fromRoot]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Content of `relative` in the baseline: null when it did not exist then,
+ * undefined when the baseline cannot tell (ignored by git, or skipped by the snapshot).
+ */
+async function readBaselineFile(baseline: DiffBaseline, relative: string): Promise<Buffer | null | undefined> {
+  if (baseline.kind === "snapshot") {
+    const inSkippedDir = relative.split("/").slice(0, -1).some((dir) => SNAPSHOT_SKIP_DIRS.has(dir));
+    if (inSkippedDir || baseline.skipped.has(relative)) return undefined;
+    // Past the file cap, a file missing from the snapshot may still have existed
+    return baseline.files.get(relative) ?? (baseline.truncated ? undefined : null);
+  }
+  const fromRoot = toRelativePath(baseline.repoRoot, path.resolve(baseline.cwd, relative));
+  try {
+    const { stdout } = await execFileAsync("git", ["cat-file", "blob", `${baseline.tree}:${fromRoot}`], {
+      cwd: baseline.repoRoot,
+      encoding: "buffer",
+      maxBuffer: GIT_MAX_BUFFER,
+    });
+    return stdout;
+  } catch {
+    return (await isGitIgnored(baseline.repoRoot, fromRoot)) ? undefined : null;
+  }
+}
+
+/** Unified diff of two versions of `relative`; null content means the file does not exist. */
+async function diffContents(relative: string, before: Buffer | null, after: Buffer | null): Promise<FileDiff & DiffStatEntry> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "subcodex-diff-"));
+  try {
+    const beforePath = before ? path.join(dir, "before") : "/dev/null";
+    const afterPath = after ? path.join(dir, "after") : "/dev/null";
+    if (before) fs.writeFileSync(beforePath, before);
+    if (after) fs.writeFileSync(afterPath, after);
+
+    let output = "";
+    try {
+      await execFileAsync("git", ["diff", "--no-index", "--no-color", "--", beforePath, afterPath], {
+        maxBuffer: GIT_MAX_BUFFER,
+      });
+    } catch (error) {
+      // Exit code 1 means the files differ
+      const { code, stdout } = error as { code?: number; stdout?: string };
+      if (code !== 1) throw error;
+      output = stdout ?? "";
+    }
+    if (!output) return { path: relative, diff: "", added: 0, removed: 0 };
+
+    // Replace git's temp-file header with one naming the real path
+    const lines = output.split("\n");
+    const bodyStart = lines.findIndex((line) => line.startsWith("@@") || line.startsWith("Binary files"));
+    const body = lines.slice(bodyStart);
+    const header = [
+      `diff --git a/${relative} b/${relative}`,
+      ...(before ? [] : ["new file mode 100644"]),
+      ...(after ? [] : ["deleted file mode 100644"]),
+    ];
+    if (body[0]?.startsWith("Binary files")) {
+      return { path: relative, diff: [...header, "Binary files differ"].join("\n"), added: 0, removed: 0, binary: true };
+    }
+    header.push(before ? `--- a/${relative}` : "--- /dev/null", after ? `+++ b/${relative}` : "+++ /dev/null");
+
+    let added = 0;
+    let removed = 0;
+    for (const line of body) {
+      if (line.startsWith("+")) added++;
+      else if (line.startsWith("-")) removed++;
+    }
+    return { path: relative, diff: [...header, ...body].join("\n").trimEnd(), added, removed };
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+/** Put `relative` back the way the baseline recorded it, deleting it if it did not exist then. */
+export async function restoreFromBaseline(baseline: DiffBaseline, relative: string): Promise<void> {
+  if (relative.startsWith("../")) {
+    throw new Error(`${relative} is outside ${baseline.cwd}`);
+  }
+  const before = await readBaselineFile(baseline, relative);
+  if (before === undefined) {
+    throw new Error(`${relative} was not captured before the session (ignored by git, or skipped by the snapshot)`);
+  }
+  const currentPath = path.resolve(baseline.cwd, relative);
+  if (before === null) {
+    fs.rmSync(currentPath, { force: true });
+  } else {
+    fs.mkdirSync(path.dirname(currentPath), { recursive: true });
+    fs.writeFileSync(currentPath, before);
+  }
+}
+
+/** Diff every path against the baseline. Paths the baseline could not capture get an explanatory diff. */
+export async function diffAgainstBaseline(
+  baseline: DiffBaseline,
+  paths: string[]
+): Promise<Array<FileDiff & DiffStatEntry>> {
+  const results: Array<FileDiff & DiffStatEntry> = [];
+  for (const relative of paths) {
+    const before = await readBaselineFile(baseline, relative);
+    const currentPath = path.resolve(baseline.cwd, relative);
+    const after = fs.existsSync(currentPath) ? fs.readFileSync(currentPath) : null;
+    if (before === undefined) {
+      results.push({ path: relative, diff: `[no diff: ${relative} was not captured before the session]`, added: 0, removed: 0 });
+      continue;
+    }
+    results.push(await diffContents(relative, before, after));
+  }
+  return results;
+}
+
+/**
+ * Fit diffs into `maxBytes` in order. The diff that crosses the cap is cut
+ * at a line boundary with a marker; later ones are replaced by a marker.
+ */
+export function capDiffs(diffs: FileDiff[], maxBytes: number): FileDiff[] {
+  let remaining = maxBytes;
+  return diffs.map(({ path: filePath, diff }) => {
+    const size = Buffer.byteLength(diff);
+    if (size <= remaining) {
+      remaining -= size;
+      return { path: filePath, diff };
+    }
+    if (remaining <= 0) {
+      return { path: filePath, diff: `[... diff omitted: ${maxBytes} byte cap reached ...]`, truncated: true };
+    }
+
+    const lines = diff.split("\n");
+    const kept: string[] = [];
+    let used = 0;
+    for (const line of lines) {
+      const lineBytes = Buffer.byteLength(line) + 1;
+      if (used + lineBytes > remaining) break;
+      kept.push(line);
+      used += lineBytes;
+    }
+    remaining = 0;
+    return {
+      path: filePath,
+      diff: `${kept.join("\n")}\n[... diff truncated: ${lines.length - kept.length} more lines ...]`,
+      truncated: true,
+    };
+  });
+}
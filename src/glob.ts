@@ -0,0 +1,57 @@
+import * as path from "path";
+
+// ============ Path Globs ============
+
+/**
+ * Convert a glob to a RegExp matched against `/`-separated relative paths.
+ * Supports `**` (any number of directories), `*`, `?` and `{a,b}`.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = "";
+  let inBraces = false;
+
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*") {
+      if (glob[i + 1] === "*") {
+        // `**/` matches zero or more directories; a trailing `**` matches everything below
+        if (glob[i + 2] === "/") {
+          pattern += "(?:.*/)?";
+          i += 2;
+        } else {
+          pattern += ".*";
+          i += 1;
+        }
+      } else {
+        pattern += "[^/]*";
+      }
+    } else if (c === "?") {
+      pattern += "[^/]";
+    } else if (c === "{") {
+      inBraces = true;
+      pattern += "(?:";
+    } else if (c === "}" && inBraces) {
+      inBraces = false;
+      pattern += ")";
+    } else if (c === "," && inBraces) {
+      pattern += "|";
+    } else {
+      pattern += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${pattern}$`);
+}
+
+/** Express `filePath` relative to `root` with forward slashes. */
+export function toRelativePath(root: string, filePath: string): string {
+  return path.relative(root, path.resolve(root, filePath)).split(path.sep).join("/");
+}
+
+/** Whether `relativePath` matches any glob. A directory glob like `src/` matches everything below it. */
+export function matchesAnyGlob(relativePath: string, globs: string[]): boolean {
+  return globs.some((glob) => {
+    const normalized = glob.endsWith("/") ? `${glob}**` : glob;
+    return globToRegExp(normalized).test(relativePath);
+  });
+}
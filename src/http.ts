@@ -0,0 +1,171 @@
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import * as http from "http";
+import * as crypto from "crypto";
+
+// ============ Streamable HTTP Transport ============
+
+export const HTTP_PORT_ENV = "SUBCODEX_HTTP_PORT";
+export const HTTP_HOST_ENV = "SUBCODEX_HTTP_HOST";
+export const HTTP_TOKEN_ENV = "SUBCODEX_HTTP_TOKEN";
+
+export const DEFAULT_HTTP_PORT = 3939;
+export const DEFAULT_HTTP_HOST = "127.0.0.1";
+export const MCP_ENDPOINT = "/mcp";
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+export type TransportOptions =
+  | { kind: "stdio" }
+  | { kind: "http"; port: number; host: string; token?: string };
+
+/**
+ * Pick the transport from the command line (`--http [port]`, `--host <host>`)
+ * and environment (`SUBCODEX_HTTP_PORT`, `SUBCODEX_HTTP_HOST`,
+ * `SUBCODEX_HTTP_TOKEN`). Without either, stdio.
+ */
+export function parseTransportOptions(argv: string[], env: NodeJS.ProcessEnv = process.env): TransportOptions {
+  const httpIndex = argv.indexOf("--http");
+  const hostIndex = argv.indexOf("--host");
+  if (httpIndex === -1 && !env[HTTP_PORT_ENV]) {
+    return { kind: "stdio" };
+  }
+
+  const portArg = httpIndex !== -1 && argv[httpIndex + 1] && !argv[httpIndex + 1].startsWith("--")
+    ? argv[httpIndex + 1]
+    : env[HTTP_PORT_ENV];
+  const port = portArg ? Number(portArg) : DEFAULT_HTTP_PORT;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid HTTP port: ${portArg}`);
+  }
+  const host = (hostIndex !== -1 ? argv[hostIndex + 1] : undefined) ?? env[HTTP_HOST_ENV] ?? DEFAULT_HTTP_HOST;
+  const token = env[HTTP_TOKEN_ENV] || undefined;
+  // Anyone who can reach the port could run Codex, so only loopback may go without a token
+  if (!token && !isLoopback(host)) {
+    throw new Error(`Refusing to serve HTTP on ${host} without ${HTTP_TOKEN_ENV}; set a token or bind to 127.0.0.1`);
+  }
+  return { kind: "http", port, host, token };
+}
+
+function isAuthorized(req: http.IncomingMessage, token: string | undefined): boolean {
+  if (!token) return true;
+  const header = req.headers.authorization ?? "";
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(header);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+function sendJsonRpcError(res: http.ServerResponse, status: number, message: string, headers: http.OutgoingHttpHeaders = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
+
+function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error("Request body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+      } catch {
+        reject(new Error("Invalid JSON body"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+function isLoopback(host: string): boolean {
+  return host === "127.0.0.1" || host === "::1" || host === "localhost";
+}
+
+/**
+ * Serve MCP over Streamable HTTP at `/mcp`. Each client session (started by
+ * an initialize request) gets its own transport and a Server from
+ * `createServer`; later requests are routed by the `mcp-session-id` header.
+ */
+export async function startHttpServer(
+  options: { port: number; host: string; token?: string },
+  createServer: () => Server
+): Promise<http.Server> {
+  const transports = new Map<string, StreamableHTTPServerTransport>();
+
+  const handle = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname !== MCP_ENDPOINT) {
+      sendJsonRpcError(res, 404, `Not found; the MCP endpoint is ${MCP_ENDPOINT}`);
+      return;
+    }
+    if (!isAuthorized(req, options.token)) {
+      sendJsonRpcError(res, 401, "Unauthorized", { "WWW-Authenticate": 'Bearer realm="subcodex"' });
+      return;
+    }
+
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId === "string") {
+      const transport = transports.get(sessionId);
+      if (!transport) {
+        sendJsonRpcError(res, 404, `Unknown session: ${sessionId}`);
+        return;
+      }
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, "Missing mcp-session-id header; start a session with an initialize request");
+      return;
+    }
+
+    const address = server.address();
+    const boundPort = typeof address === "object" && address ? address.port : options.port;
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => crypto.randomUUID(),
+      onsessioninitialized: (id) => {
+        transports.set(id, transport);
+      },
+      onsessionclosed: (id) => {
+        transports.delete(id);
+      },
+      // A page in the user's browser must not be able to reach a loopback server
+      enableDnsRebindingProtection: isLoopback(options.host),
+      allowedHosts: [`127.0.0.1:${boundPort}`, `localhost:${boundPort}`, `[::1]:${boundPort}`],
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) transports.delete(transport.sessionId);
+    };
+    await createServer().connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const server = http.createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (!res.headersSent) sendJsonRpcError(res, 400, errorMessage);
+      else res.end();
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port, options.host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+  server.on("close", () => {
+    for (const transport of transports.values()) transport.close().catch(() => {});
+    transports.clear();
+  });
+  return server;
+}
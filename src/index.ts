@@ -2,667 +2,1085 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type LoggingLevel,
+  type ProgressToken,
+  type ServerNotification,
 } from "@modelcontextprotocol/sdk/types.js";
-import { Codex, type ThreadEvent, type ThreadItem } from "@openai/codex-sdk";
+import type { ThreadEvent, Usage } from "@openai/codex-sdk";
 import * as fs from "fs";
-import * as path from "path";
-import * as os from "os";
 import * as crypto from "crypto";
-
-// ============ Stall Detection Configuration (Defaults) ============
-const DEFAULT_STALL_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
-const DEFAULT_MAX_RECOVERY_ATTEMPTS = 2;
-
-interface RecoveryInfo {
-  attempted: boolean;
-  attempts: number;
-  recovered: boolean;
-  lastError?: string;
-}
-
-interface EventProcessingResult {
-  items: ThreadItem[];
+import {
+  executeSession,
+  formatEvent,
+  type SessionArgs,
+  type SessionResponse,
+} from "./session.js";
+import {
+  applyWorktree,
+  diffWorktree,
+  discardWorktree,
+  findWorktreeByThread,
+  type ApplyStrategy,
+  type WorktreeRecord,
+} from "./worktree.js";
+import { DEFAULT_VERIFY_TIMEOUT_MINUTES } from "./verify.js";
+import { applyLogRetention, onLogChanged } from "./logs.js";
+import {
+  listResources,
+  logUri,
+  readResource,
+  sessionIdOfLog,
+  sessionUri,
+  RESOURCE_TEMPLATES,
+} from "./resources.js";
+import { buildContractPrompt, listContractPrompts } from "./prompts.js";
+import { rollbackThread } from "./checkpoints.js";
+import { parseTransportOptions, startHttpServer, MCP_ENDPOINT } from "./http.js";
+import { loadConfig } from "./config.js";
+import { addUsage, emptyUsage } from "./usage.js";
+import { DEFAULT_BATCH_CONCURRENCY, executeBatch, type BatchTask } from "./batch.js";
+import {
+  findSessionRecords,
+  getSessionRecords,
+  summarizeSessionRecord,
+  type SessionFilter,
+} from "./sessions.js";
+import {
+  computeStats,
+  filterSessionMetrics,
+  formatOtelSpans,
+  formatPrometheus,
+  readSessionMetrics,
+  STATS_FORMATS,
+  type MetricsFilter,
+  type StatsFormat,
+} from "./metrics.js";
+
+// ============ Background Jobs ============
+
+const MAX_RECENT_PROGRESS_LINES = 20;
+const MAX_FINISHED_JOBS = 50;
+const DEFAULT_WAIT_TIMEOUT_SECONDS = 60;
+
+type JobStatus = "running" | "completed" | "cancelled";
+
+interface Job {
+  id: string;
+  args: SessionArgs;
+  status: JobStatus;
+  startedAt: Date;
+  finishedAt?: Date;
   threadId: string | null;
-  finalResponse: string;
-  usage: { input_tokens: number; output_tokens: number } | null;
-  stalled: boolean;
-  error?: string;
-}
-
-function formatTimestamp(): string {
-  return new Date().toISOString();
+  itemCounts: Record<string, number>;
+  completedItems: number;
+  usage: Usage | null;
+  recentProgress: string[];
+  response?: SessionResponse;
+  controller: AbortController;
+  done: Promise<void>;
 }
 
-function writeProgress(logPath: string, message: string) {
-  const line = `[${formatTimestamp()}] ${message}\n`;
-  fs.appendFileSync(logPath, line);
-  console.error(line.trim());
-}
+const jobs = new Map<string, Job>();
 
-function clearProgressLog(logPath: string) {
-  const logDir = path.dirname(logPath);
-  if (!fs.existsSync(logDir)) {
-    fs.mkdirSync(logDir, { recursive: true });
+function recordJobEvent(job: Job, event: ThreadEvent) {
+  switch (event.type) {
+    case "thread.started":
+      job.threadId = event.thread_id;
+      break;
+    case "item.completed":
+      job.completedItems++;
+      job.itemCounts[event.item.type] = (job.itemCounts[event.item.type] ?? 0) + 1;
+      break;
+    case "turn.completed":
+      job.usage = addUsage(job.usage ?? emptyUsage(), event.usage);
+      break;
   }
-  fs.writeFileSync(logPath, `=== Codex Session Started at ${formatTimestamp()} ===\n`);
-}
-
-type ResultLevel = "PASS" | "FAIL" | "ERROR" | "TIMEOUT";
 
-function determineResultLevel(
-  items: ThreadItem[],
-  hasError: boolean,
-  errorMessage?: string
-): ResultLevel {
-  if (hasError) {
-    if (errorMessage?.includes("timeout") || errorMessage?.includes("aborted")) {
-      return "TIMEOUT";
+  const line = formatEvent(event);
+  if (line) {
+    job.recentProgress.push(line);
+    if (job.recentProgress.length > MAX_RECENT_PROGRESS_LINES) {
+      job.recentProgress.shift();
     }
-    return "ERROR";
   }
+}
 
-  // If there's a final agent message, consider it a success
-  // Codex often tries Linux commands first on Windows, fails, then uses PowerShell
-  // This is normal learning behavior, not a failure
-  const hasAgentMessage = items.some((i) => i.type === "agent_message");
-  if (hasAgentMessage) {
-    return "PASS";
+function pruneFinishedJobs() {
+  const finished = [...jobs.values()].filter(j => j.status !== "running");
+  for (const job of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+    jobs.delete(job.id);
   }
+}
 
-  // No final message - check for critical failures
-  const errorItems = items.filter((i) => i.type === "error");
-  const failedFileChanges = items.filter(
-    (i) => i.type === "file_change" && i.status === "failed"
-  );
+function startJob(args: SessionArgs): Job {
+  pruneFinishedJobs();
+
+  const controller = new AbortController();
+  const job: Job = {
+    id: crypto.randomUUID().slice(0, 8),
+    args,
+    status: "running",
+    startedAt: new Date(),
+    threadId: args.threadId ?? null,
+    itemCounts: {},
+    completedItems: 0,
+    usage: null,
+    recentProgress: [],
+    controller,
+    done: Promise.resolve(),
+  };
 
-  if (errorItems.length > 0 || failedFileChanges.length > 0) {
-    return "FAIL";
-  }
+  job.done = executeSession(args, {
+    onEvent: (event) => recordJobEvent(job, event),
+    signal: controller.signal,
+  }).then(
+    (response) => {
+      job.response = response;
+      if (job.status === "running") job.status = "completed";
+      job.finishedAt = new Date();
+    },
+    (error) => {
+      // executeSession returns its failures as responses; should it still throw, the job must not stay running
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      job.response = { error: errorMessage, resultLevel: "ERROR" };
+      if (job.status === "running") job.status = "completed";
+      job.finishedAt = new Date();
+    }
+  );
 
-  return "PASS";
+  jobs.set(job.id, job);
+  return job;
 }
 
-function renameLogWithLevel(logPath: string, level: ResultLevel): string {
-  // progress-abc123.log -> progress-abc123-PASS.log
-  const dir = path.dirname(logPath);
-  const ext = path.extname(logPath);
-  const base = path.basename(logPath, ext);
-  const newPath = path.join(dir, `${base}-${level}${ext}`);
+function describeJob(job: Job) {
+  const end = job.finishedAt ?? new Date();
+  return {
+    jobId: job.id,
+    status: job.status,
+    threadId: job.threadId,
+    level: job.args.level ?? null,
+    startedAt: job.startedAt.toISOString(),
+    finishedAt: job.finishedAt?.toISOString() ?? null,
+    elapsedSeconds: Math.round((end.getTime() - job.startedAt.getTime()) / 1000),
+    progress: {
+      completedItems: job.completedItems,
+      itemCounts: job.itemCounts,
+      usage: job.usage,
+      recent: job.recentProgress,
+    },
+    result: job.response,
+  };
+}
 
-  try {
-    if (fs.existsSync(logPath)) {
-      fs.renameSync(logPath, newPath);
-    }
-  } catch {
-    // If rename fails, keep original
-    return logPath;
+function getJob(jobId: string): Job {
+  const job = jobs.get(jobId);
+  if (!job) {
+    throw new Error(`Unknown job: ${jobId}`);
   }
-  return newPath;
+  return job;
 }
 
-function formatItem(item: ThreadItem): string {
-  switch (item.type) {
-    case "agent_message":
-      return `[Message] ${item.text.substring(0, 100)}${item.text.length > 100 ? "..." : ""}`;
-    case "reasoning":
-      return `[Reasoning] ${item.text.substring(0, 100)}${item.text.length > 100 ? "..." : ""}`;
-    case "command_execution":
-      return `[Command] ${item.command} (status: ${item.status}, exit: ${item.exit_code ?? "running"})`;
-    case "file_change":
-      return `[FileChange] ${item.changes.map(c => `${c.kind}: ${c.path}`).join(", ")} (${item.status})`;
-    case "mcp_tool_call":
-      return `[MCP] ${item.server}/${item.tool} (${item.status})`;
-    case "web_search":
-      return `[WebSearch] ${item.query}`;
-    case "todo_list":
-      return `[TodoList] ${item.items.length} items`;
-    case "error":
-      return `[Error] ${item.message}`;
-    default:
-      return `[Unknown] ${(item as any).type}`;
+function getWorktree(threadId: string): WorktreeRecord {
+  const worktree = findWorktreeByThread(threadId);
+  if (!worktree) {
+    throw new Error(`No worktree linked to thread: ${threadId}`);
   }
+  return worktree;
+}
+
+function jsonContent(value: unknown) {
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(value, null, 2),
+      },
+    ],
+  };
 }
 
-// ============ Stall Detection Event Processing ============
+// ============ Progress Notifications ============
 
 /**
- * Process events with stall detection.
- * If no event is received within STALL_TIMEOUT_MS, marks as stalled.
+ * Forward Codex events to the client as `notifications/progress` (plus a
+ * matching log message) while a blocking run/reply call is in flight.
+ * Only active when the caller supplied a progressToken.
  */
-async function processEventsWithStallDetection(
-  events: AsyncIterable<ThreadEvent>,
-  progressLog: string,
-  stallTimeoutMs: number = DEFAULT_STALL_TIMEOUT_MS
-): Promise<EventProcessingResult> {
-  const items: ThreadItem[] = [];
-  let threadId: string | null = null;
-  let finalResponse = "";
-  let usage: { input_tokens: number; output_tokens: number } | null = null;
-  let stalled = false;
-
-  const iterator = events[Symbol.asyncIterator]();
-
-  while (true) {
-    // Create a timeout promise
-    let timeoutId: NodeJS.Timeout;
-    const timeoutPromise = new Promise<{ done: true; value: undefined; timeout: true }>((resolve) => {
-      timeoutId = setTimeout(() => {
-        resolve({ done: true, value: undefined, timeout: true });
-      }, stallTimeoutMs);
-    });
-
-    // Race between next event and timeout
-    const result = await Promise.race([
-      iterator.next().then((r) => ({ ...r, timeout: false })),
-      timeoutPromise,
-    ]);
-
-    clearTimeout(timeoutId!);
-
-    // Check if timed out
-    if (result.timeout) {
-      writeProgress(progressLog, `⚠️ STALL DETECTED: No activity for ${stallTimeoutMs / 1000 / 60} minutes`);
-      stalled = true;
-      break;
+function createProgressReporter(
+  server: Server,
+  progressToken: ProgressToken | undefined,
+  sendNotification: (notification: ServerNotification) => Promise<void>,
+  sessionId?: string
+): ((event: ThreadEvent) => void) | undefined {
+  if (progressToken === undefined) return undefined;
+
+  let progress = 0;
+  let itemCount = 0;
+
+  return (event) => {
+    if (event.type !== "item.started" && event.type !== "item.completed" && event.type !== "turn.completed") {
+      return;
     }
+    if (event.type === "item.completed") itemCount++;
 
-    // Check if done
-    if (result.done) {
-      break;
-    }
+    const message = `${formatEvent(event)} [${itemCount} items]`;
+    progress++;
 
-    const event = result.value as ThreadEvent;
-
-    // Process event (same logic as before)
-    switch (event.type) {
-      case "thread.started":
-        threadId = event.thread_id;
-        writeProgress(progressLog, `Thread started: ${threadId}`);
-        break;
-
-      case "turn.started":
-        writeProgress(progressLog, "Turn started");
-        break;
-
-      case "item.started":
-        writeProgress(progressLog, `Started: ${formatItem(event.item)}`);
-        break;
-
-      case "item.updated":
-        writeProgress(progressLog, `Updated: ${formatItem(event.item)}`);
-        break;
-
-      case "item.completed":
-        writeProgress(progressLog, `Completed: ${formatItem(event.item)}`);
-        items.push(event.item);
-        if (event.item.type === "agent_message") {
-          finalResponse = event.item.text;
-        }
-        break;
-
-      case "turn.completed":
-        usage = {
-          input_tokens: event.usage.input_tokens,
-          output_tokens: event.usage.output_tokens,
-        };
-        writeProgress(progressLog, `Turn completed. Tokens: ${event.usage.input_tokens} in / ${event.usage.output_tokens} out`);
-        break;
-
-      case "turn.failed":
-        writeProgress(progressLog, `Turn failed: ${event.error.message}`);
-        break;
-
-      case "error":
-        writeProgress(progressLog, `Error: ${event.message}`);
-        break;
-    }
-  }
+    sendNotification({
+      method: "notifications/progress",
+      params: { progressToken, progress, message },
+    }).catch(() => {});
 
-  return { items, threadId, finalResponse, usage, stalled };
+    const level: LoggingLevel =
+      event.type === "item.completed" && event.item.type === "error" ? "warning" : "info";
+    server.sendLoggingMessage({ level, logger: "subcodex", data: message }, sessionId).catch(() => {});
+  };
 }
 
-/**
- * Attempt to recover a stalled session using codex-reply.
- */
-async function attemptRecovery(
-  threadId: string,
-  progressLog: string,
-  attempt: number,
-  maxAttempts: number,
-  stallTimeoutMs: number
-): Promise<EventProcessingResult & { recoverySuccess: boolean }> {
-  writeProgress(progressLog, `🔄 Recovery attempt ${attempt}/${maxAttempts}...`);
-
-  const recoveryPrompt = `检测到执行停滞。请检查当前状态并继续执行任务。
-如果遇到阻塞，请报告具体问题：
-1. 最后执行的操作是什么？
-2. 是否遇到阻塞？
-3. 需要什么帮助继续？`;
-
-  try {
-    const codex = new Codex();
-    const thread = codex.resumeThread(threadId);
-    const { events } = await thread.runStreamed(recoveryPrompt);
-
-    const result = await processEventsWithStallDetection(events, progressLog, stallTimeoutMs);
-
-    if (result.stalled) {
-      writeProgress(progressLog, `❌ Recovery attempt ${attempt} failed: still stalled`);
-      return { ...result, recoverySuccess: false };
-    }
-
-    writeProgress(progressLog, `✅ Recovery attempt ${attempt} succeeded`);
-    return { ...result, recoverySuccess: true };
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    writeProgress(progressLog, `❌ Recovery attempt ${attempt} error: ${errorMessage}`);
-    return {
-      items: [],
-      threadId,
-      finalResponse: "",
-      usage: null,
-      stalled: true,
-      error: errorMessage,
-      recoverySuccess: false,
-    };
-  }
-}
+const verifyInputProperties = {
+  verify: {
+    type: "array",
+    items: { type: "string" },
+    description: "Shell commands (tests, typecheck, lint) run in cwd after the session; any failure makes the result FAIL",
+  },
+  verifyTimeoutMinutes: {
+    type: "number",
+    description: `Timeout per verify command in minutes (default: ${DEFAULT_VERIFY_TIMEOUT_MINUTES})`,
+  },
+  autoFixAttempts: {
+    type: "number",
+    description: "Times to send verify failures back to the same thread for a fix before giving up (default: 0)",
+  },
+};
 
-/**
- * Run Codex with automatic stall detection and recovery.
- */
-async function runWithStallRecovery(
-  events: AsyncIterable<ThreadEvent>,
-  progressLog: string,
-  getThreadId: () => string | null,
-  stallTimeoutMs: number = DEFAULT_STALL_TIMEOUT_MS,
-  maxRecoveryAttempts: number = DEFAULT_MAX_RECOVERY_ATTEMPTS
-): Promise<{
-  result: EventProcessingResult;
-  recovery: RecoveryInfo;
-}> {
-  // First attempt
-  let result = await processEventsWithStallDetection(events, progressLog, stallTimeoutMs);
-
-  const recovery: RecoveryInfo = {
-    attempted: false,
-    attempts: 0,
-    recovered: false,
-  };
+const stallInputProperties = {
+  stallTimeoutMinutes: {
+    type: "number",
+    description: "Minutes without events before detecting a stall when nothing is in flight (default: level profile, else 5)",
+  },
+  commandTimeoutMinutes: {
+    type: "number",
+    description: "Stall timeout while a command is running (default: level profile, else max(stallTimeoutMinutes, 30))",
+  },
+  reasoningTimeoutMinutes: {
+    type: "number",
+    description: "Stall timeout while the model is reasoning (default: level profile, else stallTimeoutMinutes)",
+  },
+  maxDurationMinutes: {
+    type: "number",
+    description: "Hard wall-clock budget for the whole session including recovery and auto-fix turns; exceeding it ends with TIMEOUT",
+  },
+  maxInputTokens: {
+    type: "number",
+    description: "Input token budget for the session; once exceeded no further turns (recovery, auto-fix) start and the result is FAIL",
+  },
+  maxOutputTokens: {
+    type: "number",
+    description: "Output token budget for the session; once exceeded no further turns (recovery, auto-fix) start and the result is FAIL",
+  },
+  maxRecoveryAttempts: {
+    type: "number",
+    description: "Max auto-recovery attempts when stalled (default: level profile, else 2)",
+  },
+  recoveryStrategies: {
+    type: "array",
+    items: { type: "string", enum: ["nudge", "fresh-thread"] },
+    description: "Strategy per recovery attempt, the last one repeating: nudge the stalled thread, or start a fresh thread in the same cwd seeded with a summary (default: level profile, else [\"nudge\"])",
+  },
+  recoveryLanguage: {
+    type: "string",
+    enum: ["en", "zh"],
+    description: "Language of the built-in recovery prompts (default: level profile, else en)",
+  },
+  recoveryPrompt: {
+    type: "string",
+    description: "Custom nudge prompt sent to a stalled thread instead of the built-in one",
+  },
+  recoveryBackoffSeconds: {
+    type: "number",
+    description: "Seconds to wait before the second recovery attempt, doubling after that (default: level profile, else 0)",
+  },
+};
 
-  // If stalled and we have a threadId, attempt recovery
-  const threadId = result.threadId || getThreadId();
-  if (result.stalled && threadId) {
-    recovery.attempted = true;
-
-    for (let attempt = 1; attempt <= maxRecoveryAttempts; attempt++) {
-      recovery.attempts = attempt;
-
-      const recoveryResult = await attemptRecovery(threadId, progressLog, attempt, maxRecoveryAttempts, stallTimeoutMs);
-
-      if (recoveryResult.recoverySuccess) {
-        recovery.recovered = true;
-        // Merge items from recovery
-        result = {
-          ...recoveryResult,
-          items: [...result.items, ...recoveryResult.items],
-          threadId: threadId,
-        };
-        break;
-      }
+const scopeInputProperties = {
+  allowedPaths: {
+    type: "array",
+    items: { type: "string" },
+    description: "Globs relative to cwd that Codex may change (e.g. [\"src/api/\", \"test/**/*.ts\"]); changes elsewhere are violations",
+  },
+  deniedPaths: {
+    type: "array",
+    items: { type: "string" },
+    description: "Globs relative to cwd that Codex must not change, even when allowed",
+  },
+  scopeAction: {
+    type: "string",
+    enum: ["flag", "abort", "revert"],
+    description: "On a change outside the path scope: flag it in the summary, abort the session, or revert the file (default: level profile, else flag). Any violation makes the result FAIL",
+  },
+};
 
-      recovery.lastError = recoveryResult.error || "Still stalled after recovery attempt";
-    }
+const diffInputProperties = {
+  includeDiff: {
+    type: "boolean",
+    description: "Return a unified diff of every file Codex changed (default: level profile, else false)",
+  },
+  maxDiffBytes: {
+    type: "number",
+    description: "Cap on the total size of returned diffs; longer diffs are truncated with a marker (default: level profile, else 65536)",
+  },
+  checkpoints: {
+    type: "boolean",
+    description: "Checkpoint cwd before the session so rollback can undo it; outside git this copies the files (default: level profile, else only in git repositories)",
+  },
+};
 
-    if (!recovery.recovered) {
-      writeProgress(progressLog, `🛑 All recovery attempts failed. Manual intervention required.`);
-    }
-  }
+const outputInputProperties = {
+  outputSchema: {
+    type: "object",
+    description: "JSON Schema the final message must follow; the parsed result is returned as structuredContent (default: level profile, else free text)",
+  },
+  outputSchemaRetries: {
+    type: "number",
+    description: "Re-asks on the same thread, with the validation errors, when the final message does not match outputSchema; still invalid means FAIL (default: level profile, else 2)",
+  },
+  verbosity: {
+    type: "string",
+    enum: ["compact", "full", "markdown"],
+    description: "Failure detail in the response: compact = reasons only, full = plus failures (turn failures, errors, failed commands with output tails, failed file changes), markdown = plus a markdown report (default: level profile, else compact)",
+  },
+};
 
-  return { result, recovery };
-}
+const attachmentInputProperties = {
+  images: {
+    type: "array",
+    items: { type: "string" },
+    description: "Local image paths (relative to cwd), e.g. screenshots or mockups, sent to Codex with the prompt (each up to 20 MB)",
+  },
+  files: {
+    type: "array",
+    items: { type: "string" },
+    description: "File paths or globs (relative to cwd) whose contents are appended to the prompt (text only, up to 100 KB each and 256 KB in total)",
+  },
+};
 
-const server = new Server(
-  {
-    name: "subcodex",
-    version: "1.0.0",
+const runInputProperties = {
+  prompt: {
+    type: "string",
+    description: "The prompt to send to Codex",
   },
-  {
-    capabilities: {
-      tools: {},
+  cwd: {
+    type: "string",
+    description: "Working directory for the session",
+  },
+  model: {
+    type: "string",
+    description: "Optional model override (e.g. 'gpt-5.2')",
+  },
+  sandboxMode: {
+    type: "string",
+    enum: ["read-only", "workspace-write", "danger-full-access"],
+    description: "Sandbox mode for command execution",
+  },
+  approvalPolicy: {
+    type: "string",
+    enum: ["never", "on-request", "on-failure", "untrusted"],
+    description: "Approval policy passed to Codex; approval requests are not forwarded to the client, so pair anything but \"never\" with a sandboxMode",
+  },
+  level: {
+    type: "string",
+    enum: ["L1", "L2", "L3", "L4"],
+    description: "Execution level (selects the config profile): L1=Executor, L2=Builder, L3=Autonomous, L4=Specialist",
+  },
+  ...attachmentInputProperties,
+  context: {
+    type: "object",
+    description: "Context packed into the prompt under a `## Context` heading, within an estimated token budget; the response's `context` reports what was included and truncated",
+    properties: {
+      instructions: {
+        type: "boolean",
+        description: "Include AGENTS.md and CLAUDE.md from cwd (default: true)",
+      },
+      gitStatus: {
+        type: "boolean",
+        description: "Include `git status --short --branch` (default: true)",
+      },
+      gitDiff: {
+        type: "boolean",
+        description: "Include `git diff HEAD` (default: true); packed last, so it is cut first",
+      },
+      files: {
+        type: "array",
+        items: { type: "string" },
+        description: "File paths or globs (relative to cwd) to include, cut to fit rather than rejected when large",
+      },
+      maxTokens: {
+        type: "number",
+        description: "Estimated tokens for all context sections (default: 8000)",
+      },
     },
-  }
-);
+  },
+  ...stallInputProperties,
+  isolation: {
+    type: "string",
+    enum: ["worktree"],
+    description: "Run in a temporary git worktree and branch instead of cwd; review with diff, then apply or discard",
+  },
+  ...verifyInputProperties,
+  ...scopeInputProperties,
+  ...diffInputProperties,
+  ...outputInputProperties,
+};
+
+/** Options of a turn on an existing thread (`reply`, `fork`): cwd, model and sandbox come from the thread. */
+const continueInputProperties = {
+  level: {
+    type: "string",
+    enum: ["L1", "L2", "L3", "L4"],
+    description: "Execution level (selects the config profile): L1=Executor, L2=Builder, L3=Autonomous, L4=Specialist",
+  },
+  ...attachmentInputProperties,
+  ...stallInputProperties,
+  ...verifyInputProperties,
+  ...scopeInputProperties,
+  ...diffInputProperties,
+  ...outputInputProperties,
+};
+
+const worktreeThreadIdProperty = {
+  threadId: {
+    type: "string",
+    description: "Thread id of a session started with isolation: \"worktree\"",
+  },
+};
 
-// List available tools
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      {
-        name: "run",
-        description: "Run a Codex session with streaming progress, stall detection, and auto-recovery",
-        inputSchema: {
-          type: "object",
-          properties: {
-            prompt: {
-              type: "string",
-              description: "The prompt to send to Codex",
-            },
-            cwd: {
-              type: "string",
-              description: "Working directory for the session",
+// ============ MCP Server ============
+
+function registerToolHandlers(server: Server) {
+  // List available tools
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: [
+        {
+          name: "run",
+          description: "Run a Codex session with streaming progress, stall detection, and auto-recovery",
+          inputSchema: {
+            type: "object",
+            properties: runInputProperties,
+            required: ["prompt"],
+          },
+        },
+        {
+          name: "reply",
+          description: "Continue a Codex conversation by providing the thread id and prompt",
+          inputSchema: {
+            type: "object",
+            properties: {
+              threadId: {
+                type: "string",
+                description: "The thread id for this Codex session",
+              },
+              prompt: {
+                type: "string",
+                description: "The next user prompt to continue the conversation",
+              },
+              ...continueInputProperties,
             },
-            model: {
-              type: "string",
-              description: "Optional model override (e.g. 'gpt-5.2')",
+            required: ["threadId", "prompt"],
+          },
+        },
+        {
+          name: "fork",
+          description: "Branch a new thread from an existing thread and continue it with a prompt; the original thread is left unchanged, so alternatives can be tried from the same context",
+          inputSchema: {
+            type: "object",
+            properties: {
+              threadId: {
+                type: "string",
+                description: "The thread to branch from",
+              },
+              prompt: {
+                type: "string",
+                description: "The prompt for the new thread",
+              },
+              ...continueInputProperties,
             },
-            sandboxMode: {
-              type: "string",
-              enum: ["read-only", "workspace-write", "danger-full-access"],
-              description: "Sandbox mode for command execution",
+            required: ["threadId", "prompt"],
+          },
+        },
+        {
+          name: "run_async",
+          description: "Start a Codex session in the background and return a job id immediately. Pass threadId to continue an existing thread.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              ...runInputProperties,
+              threadId: {
+                type: "string",
+                description: "Optional thread id to continue instead of starting a new thread",
+              },
             },
-            approvalPolicy: {
-              type: "string",
-              enum: ["never", "on-request", "on-failure", "untrusted"],
-              description: "Approval policy for commands",
+            required: ["prompt"],
+          },
+        },
+        {
+          name: "status",
+          description: "Get live progress of a background job (recent activity, item counts, token usage, result when finished)",
+          inputSchema: {
+            type: "object",
+            properties: {
+              jobId: {
+                type: "string",
+                description: "Job id returned by run_async",
+              },
             },
-            level: {
-              type: "string",
-              enum: ["L1", "L2", "L3", "L4"],
-              description: "Execution level: L1=Executor, L2=Builder, L3=Autonomous, L4=Specialist",
+            required: ["jobId"],
+          },
+        },
+        {
+          name: "wait",
+          description: "Wait for a background job to finish, up to a timeout, and return its status",
+          inputSchema: {
+            type: "object",
+            properties: {
+              jobId: {
+                type: "string",
+                description: "Job id returned by run_async",
+              },
+              timeoutSeconds: {
+                type: "number",
+                description: `Max seconds to wait before returning the current status (default: ${DEFAULT_WAIT_TIMEOUT_SECONDS})`,
+              },
             },
-            stallTimeoutMinutes: {
-              type: "number",
-              description: "Minutes of inactivity before detecting stall (default: 5)",
+            required: ["jobId"],
+          },
+        },
+        {
+          name: "batch",
+          description: "Run several independent Codex sessions in parallel (each with stall detection and recovery) and report files touched by more than one task",
+          inputSchema: {
+            type: "object",
+            properties: {
+              tasks: {
+                type: "array",
+                description: "Run specs; each accepts the same parameters as run, plus ownedPaths",
+                items: {
+                  type: "object",
+                  properties: {
+                    ...runInputProperties,
+                    ownedPaths: {
+                      type: "array",
+                      items: { type: "string" },
+                      description: "Globs relative to cwd this task should stay within; changes outside are flagged",
+                    },
+                  },
+                  required: ["prompt"],
+                },
+              },
+              concurrency: {
+                type: "number",
+                description: `Max tasks running at once (default: ${DEFAULT_BATCH_CONCURRENCY})`,
+              },
             },
-            maxRecoveryAttempts: {
-              type: "number",
-              description: "Max auto-recovery attempts when stalled (default: 2)",
+            required: ["tasks"],
+          },
+        },
+        {
+          name: "list_sessions",
+          description: "List recorded Codex sessions (newest first), optionally filtered by cwd, level, result and date",
+          inputSchema: {
+            type: "object",
+            properties: {
+              cwd: {
+                type: "string",
+                description: "Only sessions that ran in this directory",
+              },
+              level: {
+                type: "string",
+                enum: ["L1", "L2", "L3", "L4"],
+                description: "Only sessions at this execution level",
+              },
+              resultLevel: {
+                type: "string",
+                enum: ["PASS", "PARTIAL", "FAIL", "ERROR", "TIMEOUT", "CANCELLED"],
+                description: "Only sessions with this result",
+              },
+              threadId: {
+                type: "string",
+                description: "Only sessions of this thread",
+              },
+              since: {
+                type: "string",
+                description: "ISO date/time; sessions started at or after it",
+              },
+              until: {
+                type: "string",
+                description: "ISO date/time; sessions started before it",
+              },
+              limit: {
+                type: "number",
+                description: "Max sessions to return (default: 20)",
+              },
             },
           },
-          required: ["prompt"],
         },
-      },
-      {
-        name: "reply",
-        description: "Continue a Codex conversation by providing the thread id and prompt",
-        inputSchema: {
-          type: "object",
-          properties: {
-            threadId: {
-              type: "string",
-              description: "The thread id for this Codex session",
+        {
+          name: "stats",
+          description: "Aggregate metrics of recorded sessions: pass rate per level, stall rate, recovery success rate, average duration and token spend; optionally exported as Prometheus text or OpenTelemetry JSON spans",
+          inputSchema: {
+            type: "object",
+            properties: {
+              level: {
+                type: "string",
+                enum: ["L1", "L2", "L3", "L4"],
+                description: "Only sessions at this execution level",
+              },
+              resultLevel: {
+                type: "string",
+                enum: ["PASS", "PARTIAL", "FAIL", "ERROR", "TIMEOUT", "CANCELLED"],
+                description: "Only sessions with this result",
+              },
+              since: {
+                type: "string",
+                description: "ISO date/time, or a duration back from now like 30m, 24h, 7d; sessions started at or after it",
+              },
+              until: {
+                type: "string",
+                description: "ISO date/time or duration back from now; sessions started before it",
+              },
+              format: {
+                type: "string",
+                enum: [...STATS_FORMATS],
+                description: "json: aggregated stats (default); prometheus: text exposition format; otel: OTLP/JSON spans per session and turn",
+              },
             },
-            prompt: {
-              type: "string",
-              description: "The next user prompt to continue the conversation",
+          },
+        },
+        {
+          name: "get_session",
+          description: "Get the full recorded history (all items, usage, recovery, result) of a session id, or of every session in a thread id",
+          inputSchema: {
+            type: "object",
+            properties: {
+              id: {
+                type: "string",
+                description: "Session id (from a run/reply response) or thread id",
+              },
             },
-            level: {
-              type: "string",
-              enum: ["L1", "L2", "L3", "L4"],
-              description: "Execution level (optional, for log naming): L1=Executor, L2=Builder, L3=Autonomous, L4=Specialist",
+            required: ["id"],
+          },
+        },
+        {
+          name: "diff",
+          description: "Show the unified diff of an isolated thread's worktree against its base commit",
+          inputSchema: {
+            type: "object",
+            properties: worktreeThreadIdProperty,
+            required: ["threadId"],
+          },
+        },
+        {
+          name: "apply",
+          description: "Commit an isolated thread's worktree changes and merge or cherry-pick them into the original checkout",
+          inputSchema: {
+            type: "object",
+            properties: {
+              ...worktreeThreadIdProperty,
+              strategy: {
+                type: "string",
+                enum: ["merge", "cherry-pick"],
+                description: "How to bring the changes back (default: merge)",
+              },
+              message: {
+                type: "string",
+                description: "Commit message for uncommitted worktree changes",
+              },
             },
-            stallTimeoutMinutes: {
-              type: "number",
-              description: "Minutes of inactivity before detecting stall (default: 5)",
+            required: ["threadId"],
+          },
+        },
+        {
+          name: "discard",
+          description: "Remove an isolated thread's worktree and branch",
+          inputSchema: {
+            type: "object",
+            properties: worktreeThreadIdProperty,
+            required: ["threadId"],
+          },
+        },
+        {
+          name: "rollback",
+          description: "Restore the files of a thread's working directory to the checkpoint taken before one of its turns (run/reply/fork), undoing that turn and every later one. Recovery, auto-fix and schema re-ask turns are part of the run/reply/fork they ran in",
+          inputSchema: {
+            type: "object",
+            properties: {
+              threadId: {
+                type: "string",
+                description: "The thread whose turn to roll back",
+              },
+              turn: {
+                type: "number",
+                description: "1-based turn of the thread, in the order of get_session (default: the latest)",
+              },
             },
-            maxRecoveryAttempts: {
-              type: "number",
-              description: "Max auto-recovery attempts when stalled (default: 2)",
+            required: ["threadId"],
+          },
+        },
+        {
+          name: "cancel",
+          description: "Cancel a running background job",
+          inputSchema: {
+            type: "object",
+            properties: {
+              jobId: {
+                type: "string",
+                description: "Job id returned by run_async",
+              },
             },
+            required: ["jobId"],
           },
-          required: ["threadId", "prompt"],
         },
-      },
-    ],
-  };
-});
-
-// Handle tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  if (name === "run") {
-    const {
-      prompt,
-      cwd,
-      model,
-      sandboxMode,
-      approvalPolicy,
-      level,
-      stallTimeoutMinutes,
-      maxRecoveryAttempts,
-    } = args as {
-      prompt: string;
-      cwd?: string;
-      model?: string;
-      sandboxMode?: "read-only" | "workspace-write" | "danger-full-access";
-      approvalPolicy?: "never" | "on-request" | "on-failure" | "untrusted";
-      level?: "L1" | "L2" | "L3" | "L4";
-      stallTimeoutMinutes?: number;
-      maxRecoveryAttempts?: number;
+      ],
     };
+  });
+
+  // Handle tool calls
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    const onEvent = createProgressReporter(
+      server,
+      request.params._meta?.progressToken,
+      extra.sendNotification,
+      extra.sessionId
+    );
+
+    if (name === "run") {
+      // `run` always starts a new thread; use `reply` to continue one
+      const runArgs = args as unknown as SessionArgs;
+      return jsonContent(
+        await executeSession({ ...runArgs, threadId: undefined }, { onEvent, signal: extra.signal })
+      );
+    }
 
-    const effectiveLevel = level || "L2";
-    const stallTimeoutMs = (stallTimeoutMinutes ?? 5) * 60 * 1000;
-    const maxAttempts = maxRecoveryAttempts ?? DEFAULT_MAX_RECOVERY_ATTEMPTS;
-    const sessionId = crypto.randomUUID().slice(0, 8);
-    const progressLog = path.join(os.homedir(), ".claude", "codex-logs", `progress-${effectiveLevel}-${sessionId}.log`);
-
-    clearProgressLog(progressLog);
-    writeProgress(progressLog, `Prompt: ${prompt}`);
-    if (cwd) writeProgress(progressLog, `Working directory: ${cwd}`);
-    writeProgress(progressLog, `Stall timeout: ${stallTimeoutMinutes ?? 5} min, Max recovery: ${maxAttempts}`);
-
-    try {
-      const codex = new Codex();
-      const thread = codex.startThread({
-        workingDirectory: cwd,
-        model,
-        sandboxMode,
-        approvalPolicy,
-      });
+    if (name === "reply" || name === "fork") {
+      const {
+        threadId,
+        prompt,
+        level,
+        images,
+        files,
+        stallTimeoutMinutes,
+        commandTimeoutMinutes,
+        reasoningTimeoutMinutes,
+        maxDurationMinutes,
+        maxInputTokens,
+        maxOutputTokens,
+        maxRecoveryAttempts,
+        recoveryStrategies,
+        recoveryLanguage,
+        recoveryPrompt,
+        recoveryBackoffSeconds,
+        verify,
+        verifyTimeoutMinutes,
+        autoFixAttempts,
+        allowedPaths,
+        deniedPaths,
+        scopeAction,
+        includeDiff,
+        maxDiffBytes,
+        checkpoints,
+        outputSchema,
+        outputSchemaRetries,
+        verbosity,
+      } = args as unknown as SessionArgs & { threadId: string };
+      return jsonContent(
+        await executeSession({
+          threadId: name === "reply" ? threadId : undefined,
+          forkFrom: name === "fork" ? threadId : undefined,
+          prompt,
+          level,
+          images,
+          files,
+          stallTimeoutMinutes,
+          commandTimeoutMinutes,
+          reasoningTimeoutMinutes,
+          maxDurationMinutes,
+          maxInputTokens,
+          maxOutputTokens,
+          maxRecoveryAttempts,
+          recoveryStrategies,
+          recoveryLanguage,
+          recoveryPrompt,
+          recoveryBackoffSeconds,
+          verify,
+          verifyTimeoutMinutes,
+          autoFixAttempts,
+          allowedPaths,
+          deniedPaths,
+          scopeAction,
+          includeDiff,
+          maxDiffBytes,
+          checkpoints,
+          outputSchema,
+          outputSchemaRetries,
+          verbosity,
+        }, { onEvent, signal: extra.signal })
+      );
+    }
 
-      writeProgress(progressLog, "Starting Codex session (with stall detection)...");
+    if (name === "run_async") {
+      const job = startJob(args as unknown as SessionArgs);
+      return jsonContent({ jobId: job.id, status: job.status });
+    }
 
-      const { events } = await thread.runStreamed(prompt);
+    if (name === "status") {
+      const { jobId } = args as { jobId: string };
+      return jsonContent(describeJob(getJob(jobId)));
+    }
 
-      // Use stall detection and auto-recovery
-      let capturedThreadId: string | null = null;
-      const { result, recovery } = await runWithStallRecovery(
-        events,
-        progressLog,
-        () => capturedThreadId,
-        stallTimeoutMs,
-        maxAttempts
-      );
+    if (name === "wait") {
+      const { jobId, timeoutSeconds } = args as { jobId: string; timeoutSeconds?: number };
+      const job = getJob(jobId);
+      const timeoutMs = (timeoutSeconds ?? DEFAULT_WAIT_TIMEOUT_SECONDS) * 1000;
+
+      let timeoutId: NodeJS.Timeout;
+      await Promise.race([
+        job.done,
+        new Promise<void>((resolve) => {
+          timeoutId = setTimeout(resolve, timeoutMs);
+        }),
+      ]);
+      clearTimeout(timeoutId!);
+
+      return jsonContent(describeJob(job));
+    }
 
-      const { items, threadId, finalResponse, usage, stalled } = result;
-      capturedThreadId = threadId;
+    if (name === "cancel") {
+      const { jobId } = args as { jobId: string };
+      const job = getJob(jobId);
+      if (job.status === "running") {
+        job.status = "cancelled";
+        job.controller.abort();
+        await job.done;
+      }
+      return jsonContent(describeJob(job));
+    }
 
-      writeProgress(progressLog, "=== Session Complete ===");
+    if (name === "batch") {
+      const { tasks, concurrency } = args as unknown as {
+        tasks: BatchTask[];
+        concurrency?: number;
+      };
 
-      // Determine result level (stalled without recovery = TIMEOUT)
-      const hasUnrecoveredStall = stalled && !recovery.recovered;
-      const resultLevel = hasUnrecoveredStall
-        ? "TIMEOUT"
-        : determineResultLevel(items, false);
-      writeProgress(progressLog, `Result: ${resultLevel}`);
+      return jsonContent(await executeBatch(tasks, concurrency, { onEvent, signal: extra.signal }));
+    }
 
-      // Build summary
-      const commandItems = items.filter(i => i.type === "command_execution");
-      const fileItems = items.filter(i => i.type === "file_change");
-      const mcpItems = items.filter(i => i.type === "mcp_tool_call");
+    if (name === "list_sessions") {
+      const filter = (args ?? {}) as SessionFilter;
+      return jsonContent(findSessionRecords(filter).map(summarizeSessionRecord));
+    }
 
-      // Rename log with result level (keep for non-PASS results)
-      const finalLogPath = renameLogWithLevel(progressLog, resultLevel);
-      if (resultLevel === "PASS") {
-        try { fs.unlinkSync(finalLogPath); } catch {}
+    if (name === "stats") {
+      const { format, ...filter } = (args ?? {}) as MetricsFilter & { format?: StatsFormat };
+      const metrics = readSessionMetrics();
+      if (format === "prometheus") {
+        return { content: [{ type: "text", text: formatPrometheus(computeStats(metrics, filter)) }] };
       }
+      if (format === "otel") {
+        return jsonContent(formatOtelSpans(filterSessionMetrics(metrics, filter)));
+      }
+      return jsonContent(computeStats(metrics, filter));
+    }
 
-      const summary = {
-        threadId,
-        level: effectiveLevel,
-        content: finalResponse,
-        progressLog: resultLevel !== "PASS" ? finalLogPath : null,
-        rolloutFile: threadId
-          ? `~/.codex/sessions/${new Date().toISOString().slice(0, 10).replace(/-/g, "/")}/rollout-*${threadId.slice(-12)}*.jsonl`
-          : null,
-        stats: {
-          totalItems: items.length,
-          commands: commandItems.length,
-          fileChanges: fileItems.length,
-          mcpCalls: mcpItems.length,
-          usage,
-        },
-        filesModified: fileItems.flatMap(i =>
-          i.type === "file_change" ? i.changes.map(c => `${c.kind}: ${c.path}`) : []
-        ),
-        recovery: recovery.attempted ? recovery : undefined,
-        needsUserInput: hasUnrecoveredStall,
-      };
+    if (name === "get_session") {
+      const { id } = args as { id: string };
+      const records = getSessionRecords(id);
+      if (records.length === 0) {
+        throw new Error(`Unknown session or thread: ${id}`);
+      }
+      return jsonContent(records);
+    }
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(summary, null, 2),
-          },
-        ],
-      };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      writeProgress(progressLog, `Error: ${errorMessage}`);
-
-      // Determine error level and rename log
-      const resultLevel = determineResultLevel([], true, errorMessage);
-      writeProgress(progressLog, `Result: ${resultLevel}`);
-      renameLogWithLevel(progressLog, resultLevel);
-
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({ error: `Codex Exec exited with code 1: ${errorMessage}` }, null, 2),
-          },
-        ],
+    if (name === "diff") {
+      const { threadId } = args as { threadId: string };
+      const worktree = getWorktree(threadId);
+      const { stat, diff } = await diffWorktree(worktree);
+      return jsonContent({ threadId, branch: worktree.branch, baseCommit: worktree.baseCommit, stat, diff });
+    }
+
+    if (name === "apply") {
+      const { threadId, strategy, message } = args as {
+        threadId: string;
+        strategy?: ApplyStrategy;
+        message?: string;
       };
+      const worktree = getWorktree(threadId);
+      const effectiveStrategy = strategy ?? "merge";
+      const { commits } = await applyWorktree(
+        worktree,
+        effectiveStrategy,
+        message ?? `subcodex: changes from thread ${threadId}`
+      );
+      return jsonContent({
+        threadId,
+        branch: worktree.branch,
+        strategy: effectiveStrategy,
+        appliedTo: worktree.repoRoot,
+        commits,
+      });
     }
-  }
 
-  if (name === "reply") {
-    const { threadId, prompt, level, stallTimeoutMinutes, maxRecoveryAttempts } = args as {
-      threadId: string;
-      prompt: string;
-      level?: string;
-      stallTimeoutMinutes?: number;
-      maxRecoveryAttempts?: number;
-    };
+    if (name === "discard") {
+      const { threadId } = args as { threadId: string };
+      const worktree = getWorktree(threadId);
+      await discardWorktree(worktree);
+      return jsonContent({ threadId, discarded: worktree.path, branch: worktree.branch });
+    }
 
-    const effectiveLevel = level || "L2";
-    const stallTimeoutMs = (stallTimeoutMinutes ?? 5) * 60 * 1000;
-    const maxAttempts = maxRecoveryAttempts ?? DEFAULT_MAX_RECOVERY_ATTEMPTS;
-    const sessionId = crypto.randomUUID().slice(0, 8);
-    const progressLog = path.join(os.homedir(), ".claude", "codex-logs", `progress-${effectiveLevel}-${sessionId}.log`);
+    if (name === "rollback") {
+      const { threadId, turn } = args as { threadId: string; turn?: number };
+      return jsonContent(await rollbackThread(threadId, turn));
+    }
 
-    clearProgressLog(progressLog);
-    writeProgress(progressLog, `Continuing thread: ${threadId}`);
-    writeProgress(progressLog, `Prompt: ${prompt}`);
-    writeProgress(progressLog, `Stall timeout: ${stallTimeoutMinutes ?? 5} min, Max recovery: ${maxAttempts}`);
+    throw new Error(`Unknown tool: ${name}`);
+  });
+}
 
-    try {
-      const codex = new Codex();
-      const thread = codex.resumeThread(threadId);
+// ============ Resources and Prompts ============
+
+const RESOURCE_NOTIFY_INTERVAL_MS = 500;
+
+function registerResourceHandlers(server: Server) {
+  // Resource URIs this client subscribed to
+  const resourceSubscriptions = new Set<string>();
+  // Log files this client has been told about through a list change
+  const knownLogs = new Set<string>();
+  const pendingNotifications = new Map<string, NodeJS.Timeout>();
+
+  // At most one notification per key per interval; logs are written for every event
+  const notifyThrottled = (key: string, send: () => Promise<void>) => {
+    if (pendingNotifications.has(key)) return;
+    const timer = setTimeout(() => {
+      pendingNotifications.delete(key);
+      send().catch(() => {});
+    }, RESOURCE_NOTIFY_INTERVAL_MS);
+    timer.unref();
+    pendingNotifications.set(key, timer);
+  };
 
-      writeProgress(progressLog, "Resuming Codex session (with stall detection)...");
+  const stopWatchingLogs = onLogChanged((logPath) => {
+    // A new, renamed or deleted log changes the resource list
+    const exists = fs.existsSync(logPath);
+    if (exists !== knownLogs.has(logPath)) {
+      if (exists) knownLogs.add(logPath);
+      else knownLogs.delete(logPath);
+      notifyThrottled("list", () => server.sendResourceListChanged());
+    }
 
-      const { events } = await thread.runStreamed(prompt);
+    const sessionId = sessionIdOfLog(logPath);
+    const uris = [logUri(logPath), ...(sessionId ? [sessionUri(sessionId)] : [])];
+    for (const uri of uris.filter((u) => resourceSubscriptions.has(u))) {
+      notifyThrottled(uri, () => server.sendResourceUpdated({ uri }));
+    }
+  });
+  server.onclose = () => {
+    stopWatchingLogs();
+    pendingNotifications.forEach(clearTimeout);
+  };
 
-      // Use stall detection and auto-recovery
-      const { result, recovery } = await runWithStallRecovery(
-        events,
-        progressLog,
-        () => threadId,
-        stallTimeoutMs,
-        maxAttempts
-      );
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources: listResources() };
+  });
 
-      const { items, finalResponse, usage, stalled } = result;
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: RESOURCE_TEMPLATES };
+  });
 
-      writeProgress(progressLog, "=== Session Complete ===");
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return { contents: [readResource(request.params.uri)] };
+  });
 
-      // Determine result level (stalled without recovery = TIMEOUT)
-      const hasUnrecoveredStall = stalled && !recovery.recovered;
-      const resultLevel = hasUnrecoveredStall
-        ? "TIMEOUT"
-        : determineResultLevel(items, false);
-      writeProgress(progressLog, `Result: ${resultLevel}`);
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    resourceSubscriptions.add(request.params.uri);
+    return {};
+  });
 
-      const commandItems = items.filter(i => i.type === "command_execution");
-      const fileItems = items.filter(i => i.type === "file_change");
-      const mcpItems = items.filter(i => i.type === "mcp_tool_call");
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    resourceSubscriptions.delete(request.params.uri);
+    return {};
+  });
 
-      // Rename log with result level (keep for non-PASS results)
-      const finalLogPath = renameLogWithLevel(progressLog, resultLevel);
-      if (resultLevel === "PASS") {
-        try { fs.unlinkSync(finalLogPath); } catch {}
-      }
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: listContractPrompts() };
+  });
 
-      const summary = {
-        threadId,
-        level: effectiveLevel,
-        content: finalResponse,
-        progressLog: resultLevel !== "PASS" ? finalLogPath : null,
-        stats: {
-          totalItems: items.length,
-          commands: commandItems.length,
-          fileChanges: fileItems.length,
-          mcpCalls: mcpItems.length,
-          usage,
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: promptArgs } = request.params;
+    return {
+      description: listContractPrompts().find((p) => p.name === name)?.description,
+      messages: [
+        {
+          role: "user" as const,
+          content: { type: "text" as const, text: buildContractPrompt(name, promptArgs) },
         },
-        filesModified: fileItems.flatMap(i =>
-          i.type === "file_change" ? i.changes.map(c => `${c.kind}: ${c.path}`) : []
-        ),
-        recovery: recovery.attempted ? recovery : undefined,
-        needsUserInput: hasUnrecoveredStall,
-      };
+      ],
+    };
+  });
+}
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(summary, null, 2),
-          },
-        ],
-      };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      writeProgress(progressLog, `Error: ${errorMessage}`);
-
-      // Determine error level and rename log
-      const resultLevel = determineResultLevel([], true, errorMessage);
-      writeProgress(progressLog, `Result: ${resultLevel}`);
-      renameLogWithLevel(progressLog, resultLevel);
-
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({ error: `Codex Exec exited with code 1: ${errorMessage}` }, null, 2),
-          },
-        ],
-      };
+/** One Server per client connection; jobs, worktrees and the session store are shared by all of them. */
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: "subcodex",
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        logging: {},
+        resources: { subscribe: true, listChanged: true },
+        prompts: {},
+      },
     }
-  }
-
-  throw new Error(`Unknown tool: ${name}`);
-});
+  );
+  registerToolHandlers(server);
+  registerResourceHandlers(server);
+  return server;
+}
 
 // Start the server
 async function main() {
+  // Prune logs left by earlier runs; a bad config only skips this
+  try {
+    const removed = applyLogRetention(loadConfig().logs);
+    if (removed.length > 0) console.error(`Removed ${removed.length} old log files`);
+  } catch (error) {
+    console.error(`Log retention skipped: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const transportOptions = parseTransportOptions(process.argv.slice(2));
+  if (transportOptions.kind === "http") {
+    const httpServer = await startHttpServer(transportOptions, createServer);
+    const address = httpServer.address();
+    const port = typeof address === "object" && address ? address.port : transportOptions.port;
+    console.error(
+      `Subcodex MCP Server listening on http://${transportOptions.host}:${port}${MCP_ENDPOINT}` +
+        (transportOptions.token ? " (bearer token required)" : "")
+    );
+    return;
+  }
+
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createServer().connect(transport);
   console.error("Subcodex MCP Server started");
 }
 
@@ -0,0 +1,180 @@
+import type { ThreadEvent } from "@openai/codex-sdk";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import * as crypto from "crypto";
+
+// ============ Log Files ============
+
+export const LOG_DIR = path.join(os.homedir(), ".claude", "codex-logs");
+
+export interface LogSettings {
+  /** Delete logs older than this many days (default: 30). */
+  maxAgeDays?: number;
+  /** Keep at most this many log files, newest first (default: 500). */
+  maxCount?: number;
+  /** Keep at most this many megabytes of logs, newest first (default: 200). */
+  maxTotalMB?: number;
+  /** Also write every ThreadEvent of a session to a JSONL file (default: false). */
+  eventLog?: boolean;
+}
+
+export const DEFAULT_LOG_SETTINGS = { maxAgeDays: 30, maxCount: 500, maxTotalMB: 200 } as const;
+
+/** Logs of sessions still running; retention never touches them. */
+const activeLogs = new Set<string>();
+
+export function markLogActive(logPath: string) {
+  activeLogs.add(logPath);
+}
+
+export function markLogInactive(logPath: string) {
+  activeLogs.delete(logPath);
+}
+
+export function listActiveLogs(): string[] {
+  return [...activeLogs];
+}
+
+type LogListener = (logPath: string) => void;
+const logListeners = new Set<LogListener>();
+
+/** Be told whenever a log is written, renamed or deleted. Returns an unsubscribe function. */
+export function onLogChanged(listener: LogListener): () => void {
+  logListeners.add(listener);
+  return () => logListeners.delete(listener);
+}
+
+export function notifyLogChanged(logPath: string) {
+  for (const listener of logListeners) listener(logPath);
+}
+
+/**
+ * Delete finished logs beyond the retention limits: first by age, then the
+ * oldest past `maxCount`, then the oldest past `maxTotalMB`. Returns the
+ * paths removed.
+ */
+export function applyLogRetention(settings: LogSettings = {}, logDir: string = LOG_DIR): string[] {
+  if (!fs.existsSync(logDir)) return [];
+  const maxAgeMs = (settings.maxAgeDays ?? DEFAULT_LOG_SETTINGS.maxAgeDays) * 24 * 60 * 60 * 1000;
+  const maxCount = settings.maxCount ?? DEFAULT_LOG_SETTINGS.maxCount;
+  const maxTotalBytes = (settings.maxTotalMB ?? DEFAULT_LOG_SETTINGS.maxTotalMB) * 1024 * 1024;
+
+  const files = fs.readdirSync(logDir)
+    .filter((name) => name.endsWith(".log") || name.endsWith(".jsonl"))
+    .map((name) => path.join(logDir, name))
+    .filter((filePath) => !activeLogs.has(filePath))
+    .flatMap((filePath) => {
+      try {
+        const stat = fs.statSync(filePath);
+        return stat.isFile() ? [{ filePath, mtimeMs: stat.mtimeMs, size: stat.size }] : [];
+      } catch {
+        return [];
+      }
+    })
+    .sort((a, b) => b.mtimeMs - a.mtimeMs);
+
+  const now = Date.now();
+  const removed: string[] = [];
+  let kept = 0;
+  let keptBytes = 0;
+  // Once a limit is reached every older file goes too, even if it would fit
+  let full = false;
+  for (const file of files) {
+    const expired = now - file.mtimeMs > maxAgeMs;
+    full ||= kept >= maxCount || keptBytes + file.size > maxTotalBytes;
+    if (expired || full) {
+      try {
+        fs.unlinkSync(file.filePath);
+        removed.push(file.filePath);
+      } catch {
+        // Already gone
+      }
+      continue;
+    }
+    kept++;
+    keptBytes += file.size;
+  }
+  return removed;
+}
+
+/** Append one event, with the time it arrived, to a JSONL event log. */
+export function appendEventLog(logPath: string, event: ThreadEvent) {
+  fs.appendFileSync(logPath, `${JSON.stringify({ timestamp: new Date().toISOString(), event })}\n`);
+  notifyLogChanged(logPath);
+}
+
+// ============ Rollout Files ============
+
+function codexHome(): string {
+  return process.env.CODEX_HOME || path.join(os.homedir(), ".codex");
+}
+
+function sortedEntries(dir: string): string[] {
+  try {
+    return fs.readdirSync(dir).sort().reverse();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Find the rollout file Codex wrote for `threadId`
+ * (`$CODEX_HOME/sessions/YYYY/MM/DD/rollout-<time>-<threadId>.jsonl`),
+ * searching the newest days first. Null when there is none.
+ */
+export function findRolloutFile(threadId: string): string | null {
+  const sessionsDir = path.join(codexHome(), "sessions");
+  const suffix = `-${threadId}.jsonl`;
+  for (const year of sortedEntries(sessionsDir)) {
+    for (const month of sortedEntries(path.join(sessionsDir, year))) {
+      for (const day of sortedEntries(path.join(sessionsDir, year, month))) {
+        const dayDir = path.join(sessionsDir, year, month, day);
+        const match = sortedEntries(dayDir).find((name) => name.startsWith("rollout-") && name.endsWith(suffix));
+        if (match) return path.join(dayDir, match);
+      }
+    }
+  }
+  return null;
+}
+
+/** `2026-10-19T10-00-00`, the timestamp format of rollout file names. */
+function rolloutTimestamp(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`;
+}
+
+/**
+ * Branch a thread: copy its rollout file under a new thread id, so resuming
+ * the new id continues from the same conversation while the original thread
+ * stays untouched. Returns the new thread id.
+ */
+export function forkRolloutFile(threadId: string): string {
+  const source = findRolloutFile(threadId);
+  if (!source) {
+    throw new Error(`No rollout file found for thread ${threadId} under ${path.join(codexHome(), "sessions")}`);
+  }
+
+  const forkedId = crypto.randomUUID();
+  const lines = fs.readFileSync(source, "utf8").split("\n");
+  // The session_meta line carries the thread id Codex resumes by
+  const metaIndex = lines.findIndex((line) => line.includes("\"session_meta\""));
+  if (metaIndex === -1) {
+    throw new Error(`Rollout file of thread ${threadId} has no session_meta line: ${source}`);
+  }
+  const meta = JSON.parse(lines[metaIndex]);
+  meta.payload = { ...meta.payload, id: forkedId };
+  lines[metaIndex] = JSON.stringify(meta);
+
+  const now = new Date();
+  const dayDir = path.join(
+    codexHome(),
+    "sessions",
+    String(now.getFullYear()),
+    String(now.getMonth() + 1).padStart(2, "0"),
+    String(now.getDate()).padStart(2, "0")
+  );
+  fs.mkdirSync(dayDir, { recursive: true });
+  fs.writeFileSync(path.join(dayDir, `rollout-${rolloutTimestamp(now)}-${forkedId}.jsonl`), lines.join("\n"));
+  return forkedId;
+}
@@ -0,0 +1,380 @@
+import type { Usage } from "@openai/codex-sdk";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import * as crypto from "crypto";
+import { sumUsage, type TurnUsage } from "./usage.js";
+import type { SessionRecord } from "./sessions.js";
+import type { RecoveryInfo } from "./session.js";
+
+// ============ Metrics Store ============
+
+export const METRICS_STORE_PATH = path.join(os.homedir(), ".subcodex", "metrics.jsonl");
+export const STATS_FORMATS = ["json", "prometheus", "otel"] as const;
+export type StatsFormat = (typeof STATS_FORMATS)[number];
+
+/** One `runTurn` of a session: the prompt or a follow-up, including its recovery attempts. */
+export interface TurnMetrics {
+  kind: TurnUsage["kind"];
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  usage: Usage;
+  stalled: boolean;
+  recovered: boolean;
+  recoveryAttempts: number;
+}
+
+/** One line of the metrics store: the numbers of a single run/reply/fork, without its items. */
+export interface SessionMetrics {
+  sessionId: string;
+  threadId: string | null;
+  mode: SessionRecord["mode"];
+  level: string;
+  resultLevel: string;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  /** A turn stalled, whether or not recovery got it going again. */
+  stalled: boolean;
+  recoveryAttempts: number;
+  recovered: boolean;
+  usage: Usage;
+  commands: number;
+  failedCommands: number;
+  fileChanges: number;
+  turns: TurnMetrics[];
+  error?: string;
+}
+
+export interface MetricsFilter {
+  level?: string;
+  resultLevel?: string;
+  /** ISO date/time, or a duration back from now such as `30m`, `24h`, `7d`; sessions started at or after it. */
+  since?: string;
+  /** ISO date/time or duration back from now; sessions started before it. */
+  until?: string;
+}
+
+export interface LevelStats {
+  sessions: number;
+  results: Record<string, number>;
+  /** Share of sessions that ended PASS; null without sessions. */
+  passRate: number | null;
+  stalls: number;
+  /** Share of sessions with a stalled turn. */
+  stallRate: number | null;
+  recoveryAttempts: number;
+  recovered: number;
+  /** Share of stalled sessions that recovery got going again. */
+  recoverySuccessRate: number | null;
+  totalDurationMs: number;
+  avgDurationMs: number | null;
+  usage: Usage;
+  avgUsage: Usage | null;
+  commands: number;
+  failedCommands: number;
+  fileChanges: number;
+}
+
+export interface MetricsStats extends LevelStats {
+  since: string | null;
+  until: string | null;
+  byLevel: Record<string, LevelStats>;
+}
+
+/** Build the metrics of a recorded session from the record and the timings of its turns. */
+export function buildSessionMetrics(record: SessionRecord, turns: TurnMetrics[]): SessionMetrics {
+  const recovery = record.recovery as RecoveryInfo | null;
+  const commandItems = record.items.filter((item) => item.type === "command_execution");
+  return {
+    sessionId: record.sessionId,
+    threadId: record.threadId,
+    mode: record.mode,
+    level: record.level,
+    resultLevel: record.resultLevel,
+    startedAt: record.startedAt,
+    finishedAt: record.finishedAt,
+    durationMs: Date.parse(record.finishedAt) - Date.parse(record.startedAt),
+    stalled: Boolean(recovery?.attempted) || turns.some((turn) => turn.stalled) || record.resultLevel === "TIMEOUT",
+    recoveryAttempts: recovery?.attempts ?? 0,
+    recovered: Boolean(recovery?.recovered),
+    usage: sumUsage([record.usage]),
+    commands: commandItems.length,
+    failedCommands: commandItems.filter(
+      (item) => item.type === "command_execution" && (item.status === "failed" || (item.exit_code ?? 0) !== 0)
+    ).length,
+    fileChanges: record.items.filter((item) => item.type === "file_change").length,
+    turns,
+    ...(record.error ? { error: record.error } : {}),
+  };
+}
+
+export function appendSessionMetrics(metrics: SessionMetrics) {
+  fs.mkdirSync(path.dirname(METRICS_STORE_PATH), { recursive: true });
+  fs.appendFileSync(METRICS_STORE_PATH, `${JSON.stringify(metrics)}\n`);
+}
+
+/** All metrics, oldest first. Unparseable lines (e.g. a torn write) are skipped. */
+export function readSessionMetrics(): SessionMetrics[] {
+  if (!fs.existsSync(METRICS_STORE_PATH)) return [];
+  const metrics: SessionMetrics[] = [];
+  for (const line of fs.readFileSync(METRICS_STORE_PATH, "utf8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      metrics.push(JSON.parse(line) as SessionMetrics);
+    } catch {
+      // Skip corrupt line
+    }
+  }
+  return metrics;
+}
+
+const DURATION_UNITS_MS: Record<string, number> = { m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+
+/** Epoch ms of an ISO date/time, or of `now` minus a duration like `24h`. */
+export function parseWindowBound(value: string, field: string, now: number = Date.now()): number {
+  const duration = /^(\d+)([mhd])$/.exec(value.trim());
+  if (duration) return now - Number(duration[1]) * DURATION_UNITS_MS[duration[2]];
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid ${field}: ${value} (expected an ISO date/time or a duration like 24h, 7d)`);
+  }
+  return time;
+}
+
+/** Matching metrics, oldest first. */
+export function filterSessionMetrics(
+  metrics: SessionMetrics[],
+  filter: MetricsFilter = {},
+  now: number = Date.now()
+): SessionMetrics[] {
+  const since = filter.since ? parseWindowBound(filter.since, "since", now) : undefined;
+  const until = filter.until ? parseWindowBound(filter.until, "until", now) : undefined;
+  return metrics
+    .filter((m) => !filter.level || m.level === filter.level)
+    .filter((m) => !filter.resultLevel || m.resultLevel === filter.resultLevel)
+    .filter((m) => since === undefined || Date.parse(m.startedAt) >= since)
+    .filter((m) => until === undefined || Date.parse(m.startedAt) < until);
+}
+
+// ============ Aggregation ============
+
+function ratio(count: number, total: number): number | null {
+  return total > 0 ? count / total : null;
+}
+
+function divideUsage(usage: Usage, count: number): Usage | null {
+  if (count === 0) return null;
+  return {
+    input_tokens: Math.round(usage.input_tokens / count),
+    cached_input_tokens: Math.round(usage.cached_input_tokens / count),
+    output_tokens: Math.round(usage.output_tokens / count),
+  };
+}
+
+function aggregate(metrics: SessionMetrics[]): LevelStats {
+  const results: Record<string, number> = {};
+  for (const m of metrics) results[m.resultLevel] = (results[m.resultLevel] ?? 0) + 1;
+  const stalls = metrics.filter((m) => m.stalled).length;
+  const recovered = metrics.filter((m) => m.recovered).length;
+  const usage = sumUsage(metrics.map((m) => m.usage));
+  const totalDurationMs = metrics.reduce((total, m) => total + m.durationMs, 0);
+  return {
+    sessions: metrics.length,
+    results,
+    passRate: ratio(results.PASS ?? 0, metrics.length),
+    stalls,
+    stallRate: ratio(stalls, metrics.length),
+    recoveryAttempts: metrics.reduce((total, m) => total + m.recoveryAttempts, 0),
+    recovered,
+    recoverySuccessRate: ratio(recovered, metrics.filter((m) => m.recoveryAttempts > 0).length),
+    totalDurationMs,
+    avgDurationMs: metrics.length > 0 ? Math.round(totalDurationMs / metrics.length) : null,
+    usage,
+    avgUsage: divideUsage(usage, metrics.length),
+    commands: metrics.reduce((total, m) => total + m.commands, 0),
+    failedCommands: metrics.reduce((total, m) => total + m.failedCommands, 0),
+    fileChanges: metrics.reduce((total, m) => total + m.fileChanges, 0),
+  };
+}
+
+/** Totals and rates over the matching sessions, overall and per execution level. */
+export function computeStats(
+  metrics: SessionMetrics[],
+  filter: MetricsFilter = {},
+  now: number = Date.now()
+): MetricsStats {
+  const matching = filterSessionMetrics(metrics, filter, now);
+  const levels = [...new Set(matching.map((m) => m.level))].sort();
+  return {
+    since: filter.since ? new Date(parseWindowBound(filter.since, "since", now)).toISOString() : null,
+    until: filter.until ? new Date(parseWindowBound(filter.until, "until", now)).toISOString() : null,
+    ...aggregate(matching),
+    byLevel: Object.fromEntries(levels.map((level) => [level, aggregate(matching.filter((m) => m.level === level))])),
+  };
+}
+
+// ============ Export Formats ============
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+/** Prometheus text exposition format; counters cover the matching sessions only. */
+export function formatPrometheus(stats: MetricsStats): string {
+  const lines: string[] = [];
+  const metric = (
+    name: string,
+    type: "counter" | "summary",
+    help: string,
+    samples: Array<[Record<string, string>, number]>
+  ) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    for (const [labels, value] of samples) lines.push(`${name}${formatLabels(labels)} ${value}`);
+  };
+  const perLevel = (value: (s: LevelStats) => number): Array<[Record<string, string>, number]> =>
+    Object.entries(stats.byLevel).map(([level, s]) => [{ level }, value(s)]);
+
+  metric(
+    "subcodex_sessions_total",
+    "counter",
+    "Sessions by execution level and result level.",
+    Object.entries(stats.byLevel).flatMap(([level, s]) =>
+      Object.entries(s.results).map(([result, count]): [Record<string, string>, number] => [{ level, result }, count])
+    )
+  );
+  metric("subcodex_stalls_total", "counter", "Sessions with a stalled turn.", perLevel((s) => s.stalls));
+  metric("subcodex_recovery_attempts_total", "counter", "Recovery attempts after stalls.", perLevel((s) => s.recoveryAttempts));
+  metric("subcodex_recoveries_total", "counter", "Sessions that recovered from a stall.", perLevel((s) => s.recovered));
+  lines.push(
+    "# HELP subcodex_session_duration_seconds Wall-clock duration of sessions.",
+    "# TYPE subcodex_session_duration_seconds summary"
+  );
+  for (const [level, s] of Object.entries(stats.byLevel)) {
+    const labels = formatLabels({ level });
+    lines.push(
+      `subcodex_session_duration_seconds_sum${labels} ${s.totalDurationMs / 1000}`,
+      `subcodex_session_duration_seconds_count${labels} ${s.sessions}`
+    );
+  }
+  metric(
+    "subcodex_tokens_total",
+    "counter",
+    "Tokens used, by type.",
+    Object.entries(stats.byLevel).flatMap(([level, s]): Array<[Record<string, string>, number]> => [
+      [{ level, type: "input" }, s.usage.input_tokens],
+      [{ level, type: "cached_input" }, s.usage.cached_input_tokens],
+      [{ level, type: "output" }, s.usage.output_tokens],
+    ])
+  );
+  metric("subcodex_commands_total", "counter", "Commands run by Codex.", perLevel((s) => s.commands));
+  metric("subcodex_failed_commands_total", "counter", "Commands that failed or exited non-zero.", perLevel((s) => s.failedCommands));
+  metric("subcodex_file_changes_total", "counter", "File change items.", perLevel((s) => s.fileChanges));
+  return `${lines.join("\n")}\n`;
+}
+
+type OtelValue = { stringValue: string } | { intValue: string } | { boolValue: boolean };
+
+function otelAttributes(values: Record<string, string | number | boolean | null | undefined>) {
+  return Object.entries(values)
+    .filter((entry): entry is [string, string | number | boolean] => entry[1] !== null && entry[1] !== undefined)
+    .map(([key, value]) => {
+      const otelValue: OtelValue = typeof value === "string"
+        ? { stringValue: value }
+        : typeof value === "number"
+          ? { intValue: String(Math.round(value)) }
+          : { boolValue: value };
+      return { key, value: otelValue };
+    });
+}
+
+/** Stable hex ids, so exporting the same session twice yields the same trace. */
+function otelId(seed: string, hexLength: number): string {
+  return crypto.createHash("sha256").update(seed).digest("hex").slice(0, hexLength);
+}
+
+function unixNano(iso: string): string {
+  return `${BigInt(Date.parse(iso)) * 1000000n}`;
+}
+
+// OTLP status codes: 0 unset, 1 ok, 2 error
+function otelStatus(resultLevel: string, error?: string) {
+  if (resultLevel === "PASS") return { code: 1 };
+  if (resultLevel === "FAIL" || resultLevel === "ERROR" || resultLevel === "TIMEOUT") {
+    return { code: 2, message: error ?? resultLevel };
+  }
+  return { code: 0 };
+}
+
+/**
+ * OTLP/JSON trace data: one trace per session, with a root span for the
+ * session and a child span per turn.
+ */
+export function formatOtelSpans(metrics: SessionMetrics[]) {
+  const SPAN_KIND_INTERNAL = 1;
+  const spans = metrics.flatMap((m) => {
+    const traceId = otelId(m.sessionId, 32);
+    const sessionSpanId = otelId(`${m.sessionId}:session`, 16);
+    const usageAttributes = (usage: Usage) => ({
+      "subcodex.tokens.input": usage.input_tokens,
+      "subcodex.tokens.cached_input": usage.cached_input_tokens,
+      "subcodex.tokens.output": usage.output_tokens,
+    });
+    const sessionSpan = {
+      traceId,
+      spanId: sessionSpanId,
+      name: `subcodex ${m.mode}`,
+      kind: SPAN_KIND_INTERNAL,
+      startTimeUnixNano: unixNano(m.startedAt),
+      endTimeUnixNano: unixNano(m.finishedAt),
+      attributes: otelAttributes({
+        "subcodex.session_id": m.sessionId,
+        "subcodex.thread_id": m.threadId,
+        "subcodex.level": m.level,
+        "subcodex.result_level": m.resultLevel,
+        "subcodex.stalled": m.stalled,
+        "subcodex.recovery.attempts": m.recoveryAttempts,
+        "subcodex.recovery.recovered": m.recovered,
+        "subcodex.commands": m.commands,
+        "subcodex.commands.failed": m.failedCommands,
+        "subcodex.file_changes": m.fileChanges,
+        ...usageAttributes(m.usage),
+      }),
+      status: otelStatus(m.resultLevel, m.error),
+    };
+    const turnSpans = m.turns.map((turn, index) => ({
+      traceId,
+      spanId: otelId(`${m.sessionId}:turn:${index}`, 16),
+      parentSpanId: sessionSpanId,
+      name: `subcodex turn ${turn.kind}`,
+      kind: SPAN_KIND_INTERNAL,
+      startTimeUnixNano: unixNano(turn.startedAt),
+      endTimeUnixNano: unixNano(turn.finishedAt),
+      attributes: otelAttributes({
+        "subcodex.turn.index": index + 1,
+        "subcodex.turn.kind": turn.kind,
+        "subcodex.stalled": turn.stalled,
+        "subcodex.recovery.attempts": turn.recoveryAttempts,
+        "subcodex.recovery.recovered": turn.recovered,
+        ...usageAttributes(turn.usage),
+      }),
+      status: turn.stalled && !turn.recovered ? { code: 2, message: "stalled" } : { code: 0 },
+    }));
+    return [sessionSpan, ...turnSpans];
+  });
+
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: otelAttributes({ "service.name": "subcodex" }) },
+        scopeSpans: [{ scope: { name: "subcodex" }, spans }],
+      },
+    ],
+  };
+}
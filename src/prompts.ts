@@ -0,0 +1,105 @@
+import { EXECUTION_LEVELS, type ExecutionLevel } from "./config.js";
+
+// ============ Contract Prompts ============
+
+interface ContractTemplate {
+  title: string;
+  description: string;
+  /** What Codex may decide on its own at this level. */
+  autonomy: string;
+  /** Level-specific rules, one per line. */
+  rules: string[];
+  /** What the final message must contain. */
+  report: string[];
+}
+
+const CONTRACT_TEMPLATES: Record<ExecutionLevel, ContractTemplate> = {
+  L1: {
+    title: "Executor",
+    description: "Exact, mechanical changes: do what is written and nothing else",
+    autonomy: "None. Follow the steps exactly; do not refactor, rename or fix anything not listed.",
+    rules: [
+      "Touch only the files named in Scope.",
+      "If a step cannot be done as written, stop and report why instead of improvising.",
+    ],
+    report: ["Each step and whether it was done", "Files changed"],
+  },
+  L2: {
+    title: "Builder",
+    description: "Implement a well-defined feature or fix within a given scope",
+    autonomy: "Choose the implementation, following the existing patterns of the code around it.",
+    rules: [
+      "Stay within Scope; ask in the final message if something outside it must change.",
+      "Add or update tests the way the project already tests similar code.",
+      "Run the acceptance checks before finishing.",
+    ],
+    report: ["Summary of the change", "Files changed", "Checks run and their results", "Open questions"],
+  },
+  L3: {
+    title: "Autonomous",
+    description: "Reach a goal end to end, iterating until it is verified",
+    autonomy: "Plan, implement and iterate freely within Scope until every acceptance check passes.",
+    rules: [
+      "Break the goal into steps and keep a todo list up to date.",
+      "Run the acceptance checks after each significant change and fix what fails.",
+      "Do not stop at the first working version if a check still fails.",
+    ],
+    report: ["What was done and why", "Files changed", "Checks run and their final results", "Remaining risks", "Open questions"],
+  },
+  L4: {
+    title: "Specialist",
+    description: "Expert investigation (performance, security, migration, debugging) with evidence",
+    autonomy: "Investigate as deeply as needed; change code only when Deliverables ask for it.",
+    rules: [
+      "Back every finding with evidence: commands run, measurements, file and line references.",
+      "Separate confirmed findings from hypotheses.",
+      "Prefer the smallest change that addresses the root cause.",
+    ],
+    report: ["Findings with evidence", "Changes made, if any", "Recommendations in priority order", "Open questions"],
+  },
+};
+
+const CONTRACT_ARGUMENTS = [
+  { name: "task", description: "What Codex should do", required: true },
+  { name: "scope", description: "Files or globs Codex may change (default: whatever the task needs)", required: false },
+  { name: "acceptance", description: "Checks that must pass, e.g. `pnpm test`", required: false },
+  { name: "context", description: "Background Codex needs: relevant files, decisions, constraints", required: false },
+];
+
+export function contractPromptName(level: ExecutionLevel): string {
+  return `codex-contract-${level}`;
+}
+
+export function listContractPrompts() {
+  return EXECUTION_LEVELS.map((level) => ({
+    name: contractPromptName(level),
+    title: `Codex Contract ${level} (${CONTRACT_TEMPLATES[level].title})`,
+    description: `Contract for a level ${level} run: ${CONTRACT_TEMPLATES[level].description}`,
+    arguments: CONTRACT_ARGUMENTS,
+  }));
+}
+
+/** Fill the contract template of a level; the text is meant as the `prompt` of a `run` at that level. */
+export function buildContractPrompt(name: string, args: Record<string, string> = {}): string {
+  const level = EXECUTION_LEVELS.find((l) => contractPromptName(l) === name);
+  if (!level) {
+    throw new Error(`Unknown prompt: ${name}`);
+  }
+  if (!args.task) {
+    throw new Error(`Missing required argument: task`);
+  }
+  const template = CONTRACT_TEMPLATES[level];
+  const sections = [
+    `# Codex Contract (${level} ${template.title})`,
+    `## Task\n${args.task}`,
+    `## Scope\n${args.scope || "Whatever the task needs; keep unrelated files untouched."}`,
+  ];
+  if (args.context) sections.push(`## Context\n${args.context}`);
+  sections.push(
+    `## Autonomy\n${template.autonomy}`,
+    `## Rules\n${template.rules.map((rule) => `- ${rule}`).join("\n")}`,
+    `## Acceptance\n${args.acceptance || "The task is done as described and nothing else changed."}`,
+    `## Final Report\nEnd with a message containing:\n${template.report.map((item) => `- ${item}`).join("\n")}`
+  );
+  return sections.join("\n\n");
+}
@@ -0,0 +1,133 @@
+import type { ThreadItem } from "@openai/codex-sdk";
+
+// ============ Recovery Strategies ============
+
+/**
+ * `nudge` resumes the stalled thread with a short prompt; `fresh-thread`
+ * escalates by starting a new thread in the same cwd, seeded with a summary
+ * of what the stalled thread already did.
+ */
+export const RECOVERY_STRATEGIES = ["nudge", "fresh-thread"] as const;
+export type RecoveryStrategy = (typeof RECOVERY_STRATEGIES)[number];
+
+export const RECOVERY_LANGUAGES = ["en", "zh"] as const;
+export type RecoveryLanguage = (typeof RECOVERY_LANGUAGES)[number];
+
+export const DEFAULT_RECOVERY_STRATEGIES: RecoveryStrategy[] = ["nudge"];
+export const DEFAULT_RECOVERY_LANGUAGE: RecoveryLanguage = "en";
+
+const MAX_SUMMARY_ITEMS = 30;
+const MAX_SUMMARY_TEXT = 300;
+
+const NUDGE_PROMPTS: Record<RecoveryLanguage, string> = {
+  en: `Execution appears to have stalled. Check the current state and continue the task.
+If you are blocked, report the specific problem:
+1. What was the last operation you performed?
+2. Are you blocked on something?
+3. What do you need to continue?`,
+  zh: `检测到执行停滞。请检查当前状态并继续执行任务。
+如果遇到阻塞，请报告具体问题：
+1. 最后执行的操作是什么？
+2. 是否遇到阻塞？
+3. 需要什么帮助继续？`,
+};
+
+const FRESH_THREAD_HEADERS: Record<RecoveryLanguage, { intro: string; task: string; done: string; files: string; outro: string }> = {
+  en: {
+    intro: "A previous Codex session working on this task stalled and was stopped. Continue the task from where it left off.",
+    task: "Original task:",
+    done: "Completed steps of the previous session:",
+    files: "Files it changed:",
+    outro: "Inspect the working directory before repeating any step; the changes above are already on disk.",
+  },
+  zh: {
+    intro: "之前执行此任务的 Codex 会话停滞并已被终止。请从中断处继续执行任务。",
+    task: "原始任务：",
+    done: "之前会话已完成的步骤：",
+    files: "已修改的文件：",
+    outro: "重复任何步骤前请先检查工作目录；上述修改已经写入磁盘。",
+  },
+};
+
+/** Strategy for a 1-based attempt; the last strategy repeats once the list runs out. */
+export function strategyForAttempt(strategies: RecoveryStrategy[], attempt: number): RecoveryStrategy {
+  const list = strategies.length > 0 ? strategies : DEFAULT_RECOVERY_STRATEGIES;
+  return list[Math.min(attempt, list.length) - 1];
+}
+
+/** Delay before a 1-based attempt: none before the first, then doubling from `backoffMs`. */
+export function backoffDelayMs(backoffMs: number, attempt: number): number {
+  return attempt <= 1 || backoffMs <= 0 ? 0 : backoffMs * 2 ** (attempt - 2);
+}
+
+/** The nudge sent to a stalled thread: a custom prompt verbatim, else the built-in one for `language`. */
+export function buildNudgePrompt(language: RecoveryLanguage, customPrompt?: string): string {
+  return customPrompt ?? NUDGE_PROMPTS[language];
+}
+
+function truncate(text: string): string {
+  const oneLine = text.replace(/\s+/g, " ").trim();
+  return oneLine.length > MAX_SUMMARY_TEXT ? `${oneLine.slice(0, MAX_SUMMARY_TEXT)}...` : oneLine;
+}
+
+function describeCompletedItem(item: ThreadItem): string | undefined {
+  switch (item.type) {
+    case "command_execution":
+      return `ran \`${truncate(item.command)}\` (exit ${item.exit_code ?? "?"})`;
+    case "file_change":
+      return `${item.status === "completed" ? "changed" : "failed to change"} ${item.changes.map((c) => `${c.kind} ${c.path}`).join(", ")}`;
+    case "mcp_tool_call":
+      return `called ${item.server}.${item.tool} (${item.status})`;
+    case "agent_message":
+      return `said: ${truncate(item.text)}`;
+    case "todo_list":
+      return `plan: ${item.items.map((t) => `${t.completed ? "[x]" : "[ ]"} ${t.text}`).join("; ")}`;
+    default:
+      return undefined;
+  }
+}
+
+/** Prompt that seeds a fresh thread with the task and a summary of the stalled thread's work. */
+export function buildFreshThreadPrompt(language: RecoveryLanguage, task: string, items: ThreadItem[]): string {
+  const headers = FRESH_THREAD_HEADERS[language];
+  const steps = items
+    .map(describeCompletedItem)
+    .filter((line): line is string => line !== undefined);
+  const files = [
+    ...new Set(
+      items.flatMap((item) =>
+        item.type === "file_change" && item.status === "completed" ? item.changes.map((c) => c.path) : []
+      )
+    ),
+  ];
+
+  const sections = [headers.intro, `${headers.task}\n${task}`];
+  if (steps.length > 0) {
+    const shown = steps.slice(-MAX_SUMMARY_ITEMS);
+    const skipped = steps.length - shown.length;
+    sections.push(
+      `${headers.done}\n${skipped > 0 ? `- (${skipped} earlier steps omitted)\n` : ""}${shown.map((s) => `- ${s}`).join("\n")}`
+    );
+  }
+  if (files.length > 0) {
+    sections.push(`${headers.files}\n${files.map((f) => `- ${f}`).join("\n")}`);
+  }
+  sections.push(headers.outro);
+  return sections.join("\n\n");
+}
+
+/** Resolve after `ms`, or reject as soon as `signal` aborts. */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new Error("The operation was aborted"));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error("The operation was aborted"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
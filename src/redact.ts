@@ -0,0 +1,167 @@
+// ============ Secret Redaction ============
+
+/** Secret detection settings, from the `redaction` config. */
+export interface RedactionSettings {
+  /** Default: true. When false nothing is redacted. */
+  enabled?: boolean;
+  /** Use the built-in detectors (default: true). */
+  builtin?: boolean;
+  /** Regular expressions; with a named group `secret` only that part is replaced. */
+  patterns?: string[];
+  /** Exact values to redact wherever they appear, e.g. a staging password. */
+  literals?: string[];
+}
+
+export interface Redactor {
+  redact(text: string): string;
+  /** A copy of `value` with every string in it redacted. */
+  redactValue<T>(value: T): T;
+}
+
+/** Replacements made by a counting redactor. */
+export interface RedactionReport {
+  count: number;
+  /** Per detector name (`pattern` and `literal` for configured ones). */
+  detectors: Record<string, number>;
+}
+
+interface Detector {
+  name: string;
+  pattern: RegExp;
+  /** For assignments: values of the `secret` group that are not secrets. */
+  ignore?: (secret: string) => boolean;
+}
+
+/** Shortest literal accepted; shorter ones would redact ordinary words. */
+export const MIN_LITERAL_LENGTH = 4;
+
+/** Assigned values that are not secrets: numbers (`MAX_TOKENS=4000`) and `$VARIABLE` references. */
+function isPlaceholder(secret: string): boolean {
+  return /^\d+$/.test(secret) || secret.startsWith("$");
+}
+
+const SECRET_ENV_NAME = String.raw`\b[A-Z0-9_]*(?:SECRET|TOKEN|PASSWORD|PASSWD|API_?KEY|ACCESS_?KEY|PRIVATE_?KEY|CREDENTIALS?)[A-Z0-9_]*`;
+const SECRET_KEY_NAME = String.raw`\b(?:password|passwd|secret|client_secret|api[_-]?key|access[_-]?token|auth[_-]?token|refresh[_-]?token)`;
+
+const BUILTIN_DETECTORS: Detector[] = [
+  { name: "private-key", pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { name: "anthropic-key", pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { name: "openai-key", pattern: /\bsk-(?:proj-|svcacct-)?[A-Za-z0-9_-]{20,}/g },
+  { name: "github-token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/g },
+  { name: "aws-access-key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: "google-api-key", pattern: /\bAIza[0-9A-Za-z_-]{35}/g },
+  { name: "slack-token", pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+  { name: "stripe-key", pattern: /\b[rs]k_(?:live|test)_[0-9A-Za-z]{16,}/g },
+  { name: "jwt", pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+  // A token has a digit somewhere; "Bearer authentication" is prose
+  { name: "bearer-token", pattern: /\bBearer\s+(?<secret>(?=[A-Za-z._~+/-]*\d)[A-Za-z0-9._~+/-]{16,}=*)/gi },
+  { name: "url-credentials", pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:(?<secret>[^\s@/]+)@/gi },
+  // `.env` style: `DB_PASSWORD=...`, quoted values may contain spaces
+  { name: "env-assignment", pattern: new RegExp(`${SECRET_ENV_NAME}\\s*=\\s*(["'])(?<secret>(?:(?!\\1)[^\\n]){4,})\\1`, "g"), ignore: isPlaceholder },
+  { name: "env-assignment", pattern: new RegExp(`${SECRET_ENV_NAME}\\s*=\\s*(?<secret>[^\\s"']+)`, "g"), ignore: isPlaceholder },
+  // `password = ...`, or a quoted value after a colon (JSON, YAML); `password: string` is a type
+  { name: "key-value", pattern: new RegExp(`${SECRET_KEY_NAME}["']?\\s*[:=]\\s*(["'])(?<secret>(?:(?!\\1)[^\\n]){4,})\\1`, "gi"), ignore: isPlaceholder },
+  { name: "key-value", pattern: new RegExp(`${SECRET_KEY_NAME}\\s*=\\s*(?<secret>[^\\s"',;}]{4,})`, "gi"), ignore: isPlaceholder },
+];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Throws when a configured pattern does not compile or a literal is too short. */
+export function compileRedactionSettings(settings: RedactionSettings = {}): Detector[] {
+  if (settings.enabled === false) return [];
+  const detectors = settings.builtin === false ? [] : [...BUILTIN_DETECTORS];
+  (settings.patterns ?? []).forEach((source, index) => {
+    try {
+      detectors.push({ name: "pattern", pattern: new RegExp(source, "g") });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`redaction.patterns[${index}] is not a valid regular expression: ${errorMessage}`);
+    }
+  });
+  for (const literal of settings.literals ?? []) {
+    if (literal.length < MIN_LITERAL_LENGTH) {
+      throw new Error(`redaction.literals entries must be at least ${MIN_LITERAL_LENGTH} characters`);
+    }
+  }
+  // Longest first, so a literal containing another is replaced whole
+  const literals = [...new Set(settings.literals ?? [])].sort((a, b) => b.length - a.length);
+  if (literals.length > 0) {
+    detectors.unshift({ name: "literal", pattern: new RegExp(literals.map(escapeRegExp).join("|"), "g") });
+  }
+  return detectors;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Build a redactor from settings. Each match is replaced by
+ * `[REDACTED:<detector>]`; with `report`, replacements are tallied into it.
+ */
+export function createRedactor(settings: RedactionSettings = {}, report?: RedactionReport): Redactor {
+  const detectors = compileRedactionSettings(settings);
+
+  const redact = (text: string): string => {
+    let result = text;
+    for (const { name, pattern, ignore } of detectors) {
+      pattern.lastIndex = 0;
+      result = result.replace(pattern, (match: string, ...rest: unknown[]) => {
+        const groups = rest[rest.length - 1];
+        const secret = typeof groups === "object" && groups !== null
+          ? (groups as Record<string, string | undefined>).secret
+          : undefined;
+        // Earlier redactions are left as they are, so redacting twice counts once
+        if (match.startsWith("[REDACTED") || secret?.startsWith("[REDACTED") || (secret !== undefined && ignore?.(secret))) {
+          return match;
+        }
+        if (report) {
+          report.count++;
+          report.detectors[name] = (report.detectors[name] ?? 0) + 1;
+        }
+        const marker = `[REDACTED:${name}]`;
+        if (secret === undefined) return marker;
+        const start = match.lastIndexOf(secret);
+        return `${match.slice(0, start)}${marker}${match.slice(start + secret.length)}`;
+      });
+    }
+    return result;
+  };
+
+  const redactValue = <T>(value: T): T => {
+    if (typeof value === "string") return redact(value) as T;
+    if (Array.isArray(value)) return value.map((entry) => redactValue(entry)) as T;
+    if (isPlainObject(value)) {
+      return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, redactValue(entry)])) as T;
+    }
+    return value;
+  };
+
+  return { redact, redactValue };
+}
+
+export function emptyRedactionReport(): RedactionReport {
+  return { count: 0, detectors: {} };
+}
+
+/** Built-in detectors only, for output not tied to a session. */
+export const DEFAULT_REDACTOR = createRedactor();
+
+/** Redactor of each active progress log, so `writeProgress` applies the session's settings. */
+const logRedactors = new Map<string, Redactor>();
+
+export function setLogRedactor(logPath: string, redactor: Redactor) {
+  logRedactors.set(logPath, redactor);
+}
+
+export function clearLogRedactor(logPath: string) {
+  logRedactors.delete(logPath);
+}
+
+export function redactorForLog(logPath: string): Redactor {
+  return logRedactors.get(logPath) ?? DEFAULT_REDACTOR;
+}
@@ -0,0 +1,104 @@
+import * as fs from "fs";
+import * as path from "path";
+import { findSessionRecords, getSessionRecords } from "./sessions.js";
+import { listActiveLogs, LOG_DIR } from "./logs.js";
+
+// ============ MCP Resources ============
+
+const SESSION_URI_PREFIX = "subcodex://sessions/";
+const LOG_URI_PREFIX = "subcodex://logs/";
+const MAX_LISTED_SESSIONS = 50;
+const MAX_LISTED_LOGS = 100;
+
+/** `progress-L2-1a2b3c4d-FAIL.log` / `events-L2-1a2b3c4d.jsonl` -> `1a2b3c4d` */
+const LOG_FILE_PATTERN = /^(?:progress|events)-[^-]+-([0-9a-f]{8})(?:-[A-Z]+)?\.(?:log|jsonl)$/;
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: `${SESSION_URI_PREFIX}{sessionId}`,
+    name: "Codex session",
+    description: "Session record (prompt, items, usage, verification, ...) of a run or reply, or its status while it is running",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: `${LOG_URI_PREFIX}{file}`,
+    name: "Codex log",
+    description: "Progress log (.log) or JSONL event log (.jsonl) in ~/.claude/codex-logs",
+  },
+];
+
+export function sessionUri(sessionId: string): string {
+  return `${SESSION_URI_PREFIX}${sessionId}`;
+}
+
+export function logUri(logPath: string): string {
+  return `${LOG_URI_PREFIX}${encodeURIComponent(path.basename(logPath))}`;
+}
+
+/** Session id a log file belongs to, if it is a session log. */
+export function sessionIdOfLog(logPath: string): string | undefined {
+  return path.basename(logPath).match(LOG_FILE_PATTERN)?.[1];
+}
+
+function logMimeType(file: string): string {
+  return file.endsWith(".jsonl") ? "application/x-ndjson" : "text/plain";
+}
+
+/** Recent session records (newest first) and log files (newest first). */
+export function listResources() {
+  const sessions = findSessionRecords({ limit: MAX_LISTED_SESSIONS }).map((record) => ({
+    uri: sessionUri(record.sessionId),
+    name: `${record.level} ${record.resultLevel}: ${record.prompt.length > 60 ? `${record.prompt.slice(0, 60)}...` : record.prompt}`,
+    description: `${record.mode} on thread ${record.threadId ?? "(none)"}, started ${record.startedAt}`,
+    mimeType: "application/json",
+  }));
+
+  const logs = fs.existsSync(LOG_DIR)
+    ? fs.readdirSync(LOG_DIR)
+        .filter((file) => LOG_FILE_PATTERN.test(file))
+        .map((file) => ({ file, stat: fs.statSync(path.join(LOG_DIR, file)) }))
+        .sort((a, b) => b.stat.mtimeMs - a.stat.mtimeMs)
+        .slice(0, MAX_LISTED_LOGS)
+        .map(({ file, stat }) => ({
+          uri: logUri(file),
+          name: file,
+          mimeType: logMimeType(file),
+          size: stat.size,
+        }))
+    : [];
+
+  return [...sessions, ...logs];
+}
+
+/** Contents of a `subcodex://` resource. */
+export function readResource(uri: string): { uri: string; mimeType: string; text: string } {
+  if (uri.startsWith(SESSION_URI_PREFIX)) {
+    const sessionId = decodeURIComponent(uri.slice(SESSION_URI_PREFIX.length));
+    const record = getSessionRecords(sessionId).find((r) => r.sessionId === sessionId);
+    if (record) {
+      return { uri, mimeType: "application/json", text: JSON.stringify(record, null, 2) };
+    }
+    // Records are written when a session ends; until then point at its live logs
+    const running = listActiveLogs().filter((logPath) => sessionIdOfLog(logPath) === sessionId);
+    if (running.length > 0) {
+      const status = { sessionId, status: "running", logs: running.map(logUri) };
+      return { uri, mimeType: "application/json", text: JSON.stringify(status, null, 2) };
+    }
+    throw new Error(`Unknown session: ${sessionId}`);
+  }
+
+  if (uri.startsWith(LOG_URI_PREFIX)) {
+    const file = decodeURIComponent(uri.slice(LOG_URI_PREFIX.length));
+    // Only session logs directly inside the log directory
+    if (!LOG_FILE_PATTERN.test(file) || path.basename(file) !== file) {
+      throw new Error(`Unknown log: ${file}`);
+    }
+    const logPath = path.join(LOG_DIR, file);
+    if (!fs.existsSync(logPath)) {
+      throw new Error(`Unknown log: ${file}`);
+    }
+    return { uri, mimeType: logMimeType(file), text: fs.readFileSync(logPath, "utf8") };
+  }
+
+  throw new Error(`Unknown resource: ${uri}`);
+}
@@ -0,0 +1,40 @@
+import { matchesAnyGlob } from "./glob.js";
+
+// ============ Path Scope ============
+
+/** What happens when Codex changes a file outside its scope: record it, stop the session, or undo the change. */
+export const SCOPE_ACTIONS = ["flag", "abort", "revert"] as const;
+export type ScopeAction = (typeof SCOPE_ACTIONS)[number];
+
+export interface PathScope {
+  /** Globs (relative to cwd) Codex may change; empty or unset allows everything not denied. */
+  allowedPaths?: string[];
+  /** Globs (relative to cwd) Codex must not change, even when allowed. */
+  deniedPaths?: string[];
+}
+
+export interface ScopeViolation {
+  /** Relative to cwd. */
+  path: string;
+  kind: string;
+  reason: "not-allowed" | "denied";
+  action: ScopeAction;
+  /** For `revert`: whether the file was restored to its state before the session. */
+  reverted?: boolean;
+  error?: string;
+}
+
+export function hasPathScope(scope: PathScope): boolean {
+  return Boolean(scope.allowedPaths?.length || scope.deniedPaths?.length);
+}
+
+/** Why `relativePath` is out of scope, or undefined when it may be changed. */
+export function checkPathScope(relativePath: string, scope: PathScope): ScopeViolation["reason"] | undefined {
+  if (scope.deniedPaths?.length && matchesAnyGlob(relativePath, scope.deniedPaths)) {
+    return "denied";
+  }
+  if (scope.allowedPaths?.length && !matchesAnyGlob(relativePath, scope.allowedPaths)) {
+    return "not-allowed";
+  }
+  return undefined;
+}
@@ -0,0 +1,1538 @@
+import type { ApprovalMode, Input, SandboxMode, ThreadEvent, ThreadItem, ThreadOptions, Usage } from "@openai/codex-sdk";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import * as crypto from "crypto";
+import { createBackend, type BackendThread } from "./backend.js";
+import { loadConfig, resolveProfile, type ExecutionLevel, type SubcodexConfig } from "./config.js";
+import {
+  createWorktree,
+  discardWorktree,
+  findWorktreeByThread,
+  linkWorktreeThread,
+} from "./worktree.js";
+import {
+  buildFixPrompt,
+  runVerification,
+  DEFAULT_VERIFY_TIMEOUT_MINUTES,
+  type VerificationReport,
+} from "./verify.js";
+import {
+  classifyTurns,
+  collectFailures,
+  formatMarkdownReport,
+  hasFailures,
+  DEFAULT_VERBOSITY,
+  type SessionFailures,
+  type TurnError,
+  type Verbosity,
+} from "./classify.js";
+import {
+  buildSchemaRetryPrompt,
+  compileOutputSchema,
+  DEFAULT_OUTPUT_SCHEMA_RETRIES,
+  type OutputValidation,
+} from "./structured.js";
+import {
+  appendEventLog,
+  applyLogRetention,
+  findRolloutFile,
+  forkRolloutFile,
+  markLogActive,
+  markLogInactive,
+  notifyLogChanged,
+  LOG_DIR,
+} from "./logs.js";
+import { appendSessionRecord, findThreadWorkingDirectory, sumThreadUsage, type SessionRecord } from "./sessions.js";
+import {
+  backoffDelayMs,
+  buildFreshThreadPrompt,
+  buildNudgePrompt,
+  delay,
+  strategyForAttempt,
+  DEFAULT_RECOVERY_LANGUAGE,
+  DEFAULT_RECOVERY_STRATEGIES,
+  type RecoveryLanguage,
+  type RecoveryStrategy,
+} from "./recovery.js";
+import {
+  capDiffs,
+  captureDiffBaseline,
+  changedPaths,
+  diffAgainstBaseline,
+  restoreFromBaseline,
+  DEFAULT_MAX_DIFF_BYTES,
+  type DiffBaseline,
+  type DiffStatEntry,
+  type FileDiff,
+} from "./diff.js";
+import { checkPathScope, hasPathScope, type PathScope, type ScopeAction, type ScopeViolation } from "./scope.js";
+import { toRelativePath } from "./glob.js";
+import {
+  buildTurnInput,
+  describeAttachments,
+  inputText,
+  resolveAttachments,
+  type AttachmentArgs,
+  type Attachments,
+} from "./attachments.js";
+import { createCheckpoint, type Checkpoint } from "./checkpoints.js";
+import { appendContext, describeContext, packContext, type ContextOptions, type ContextReport } from "./context.js";
+import { appendSessionMetrics, buildSessionMetrics, type TurnMetrics } from "./metrics.js";
+import {
+  clearLogRedactor,
+  createRedactor,
+  emptyRedactionReport,
+  redactorForLog,
+  setLogRedactor,
+  DEFAULT_REDACTOR,
+  type RedactionReport,
+  type Redactor,
+} from "./redact.js";
+import { addUsage, checkTokenBudget, formatUsage, sumUsage, type TurnUsage } from "./usage.js";
+
+// ============ Stall Detection Configuration (Defaults) ============
+export const DEFAULT_STALL_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
+export const DEFAULT_MAX_RECOVERY_ATTEMPTS = 2;
+export const DEFAULT_COMMAND_TIMEOUT_MINUTES = 30;
+const TURN_SHUTDOWN_GRACE_MS = 5 * 1000;
+
+/** One recovery attempt: what was tried and how it ended. */
+export interface RecoveryAttempt {
+  attempt: number;
+  strategy: RecoveryStrategy;
+  /** Thread the attempt ran on (a new one for `fresh-thread`, once started). */
+  threadId: string | null;
+  outcome: "recovered" | "stalled" | "error" | "cancelled" | "budget-exceeded";
+  /** Backoff waited before the attempt. */
+  delayMs: number;
+  stallReason?: string;
+  error?: string;
+}
+
+export interface RecoveryInfo {
+  attempted: boolean;
+  attempts: number;
+  recovered: boolean;
+  /** Why the turn that triggered recovery was considered stalled. */
+  stallReason?: string;
+  lastError?: string;
+  /** Set when a `fresh-thread` escalation replaced the stalled thread; later turns continue it. */
+  escalatedThreadId?: string;
+  history: RecoveryAttempt[];
+}
+
+/** How a stalled turn is recovered. A bare number means that many default nudges. */
+export interface RecoveryPolicy {
+  maxAttempts: number;
+  /** Strategy per attempt; the last one repeats. */
+  strategies: RecoveryStrategy[];
+  language: RecoveryLanguage;
+  /** Replaces the built-in nudge prompt. */
+  nudgePrompt?: string;
+  /** Wait before the second attempt, doubling for each one after. */
+  backoffMs: number;
+  /** Options for resumed and fresh threads (cwd, model, sandbox, approval). */
+  threadOptions?: ThreadOptions;
+  /** The prompt of the stalled turn, restated to a fresh thread. */
+  task?: string;
+  /** JSON Schema the turn's final message must follow, kept for recovery turns. */
+  outputSchema?: Record<string, unknown>;
+}
+
+/**
+ * How long to wait for the next event, depending on what is in flight.
+ * A bare number means the same timeout everywhere and no budget.
+ */
+export interface StallPolicy {
+  /** No item in flight (between items or turns). */
+  idleTimeoutMs: number;
+  /** A command_execution item has started but not completed. */
+  commandTimeoutMs: number;
+  /** A reasoning item has started but not completed. */
+  reasoningTimeoutMs: number;
+  /** Epoch ms after which the whole run is stopped, regardless of activity. */
+  deadline?: number;
+  /** Original budget, for the stall reason. */
+  maxDurationMs?: number;
+}
+
+/**
+ * Optional observers threaded through a session: used to follow progress
+ * and to cancel the underlying Codex turns (job cancel, MCP cancellation).
+ */
+export interface SessionHooks {
+  onEvent?: (event: ThreadEvent) => void;
+  signal?: AbortSignal;
+}
+
+export interface EventProcessingResult {
+  items: ThreadItem[];
+  threadId: string | null;
+  finalResponse: string;
+  /** Usage of this turn alone (each `runStreamed` call is one turn). */
+  usage: Usage | null;
+  stalled: boolean;
+  /** Set when `stalled` because the run's wall-clock budget ran out. */
+  budgetExceeded: boolean;
+  stallReason?: string;
+  cancelled: boolean;
+  /** `turn.failed` and stream `error` events, in order. */
+  turnErrors: TurnError[];
+  error?: string;
+}
+
+function formatTimestamp(): string {
+  return new Date().toISOString();
+}
+
+/** Append a line to a progress log, redacted with the settings of the log's session. */
+export function writeProgress(logPath: string, message: string) {
+  const line = `[${formatTimestamp()}] ${redactorForLog(logPath).redact(message)}\n`;
+  fs.appendFileSync(logPath, line);
+  notifyLogChanged(logPath);
+  console.error(line.trim());
+}
+
+export function clearProgressLog(logPath: string) {
+  const logDir = path.dirname(logPath);
+  if (!fs.existsSync(logDir)) {
+    fs.mkdirSync(logDir, { recursive: true });
+  }
+  fs.writeFileSync(logPath, `=== Codex Session Started at ${formatTimestamp()} ===\n`);
+}
+
+export type ResultLevel = "PASS" | "PARTIAL" | "FAIL" | "ERROR" | "TIMEOUT" | "CANCELLED";
+
+export function determineResultLevel(
+  items: ThreadItem[],
+  hasError: boolean,
+  errorMessage?: string,
+  turnErrors: TurnError[] = []
+): ResultLevel {
+  if (hasError) {
+    if (errorMessage?.includes("timeout") || errorMessage?.includes("aborted")) {
+      return "TIMEOUT";
+    }
+    return "ERROR";
+  }
+
+  // Failed commands alone do not count: Codex often tries Linux commands first on
+  // Windows, fails, then uses PowerShell. This is normal learning behavior, not a failure
+  return classifyTurns(items, collectFailures(items, turnErrors)).level;
+}
+
+export function renameLogWithLevel(logPath: string, level: ResultLevel): string {
+  // progress-abc123.log -> progress-abc123-PASS.log
+  const dir = path.dirname(logPath);
+  const ext = path.extname(logPath);
+  const base = path.basename(logPath, ext);
+  const newPath = path.join(dir, `${base}-${level}${ext}`);
+
+  try {
+    if (fs.existsSync(logPath)) {
+      fs.renameSync(logPath, newPath);
+    }
+  } catch {
+    // If rename fails, keep original
+    return logPath;
+  }
+  return newPath;
+}
+
+/**
+ * One-line summary of an item with secrets redacted; message and reasoning
+ * text is cut at `maxTextLength` (after redaction, so no secret is half shown).
+ */
+export function formatItem(item: ThreadItem, maxTextLength = 100, redactor: Redactor = DEFAULT_REDACTOR): string {
+  const clip = (text: string) => {
+    const redacted = redactor.redact(text);
+    return redacted.length > maxTextLength ? `${redacted.substring(0, maxTextLength)}...` : redacted;
+  };
+  switch (item.type) {
+    case "agent_message":
+      return `[Message] ${clip(item.text)}`;
+    case "reasoning":
+      return `[Reasoning] ${clip(item.text)}`;
+    case "command_execution":
+      return `[Command] ${redactor.redact(item.command)} (status: ${item.status}, exit: ${item.exit_code ?? "running"})`;
+    case "file_change":
+      return `[FileChange] ${item.changes.map(c => `${c.kind}: ${c.path}`).join(", ")} (${item.status})`;
+    case "mcp_tool_call":
+      return `[MCP] ${item.server}/${item.tool} (${item.status})`;
+    case "web_search":
+      return `[WebSearch] ${redactor.redact(item.query)}`;
+    case "todo_list":
+      return `[TodoList] ${item.items.length} items`;
+    case "error":
+      return `[Error] ${redactor.redact(item.message)}`;
+    default:
+      return `[Unknown] ${(item as any).type}`;
+  }
+}
+
+/**
+ * One-line summary of a stream event for live progress views, or null for
+ * events that carry no useful progress information.
+ */
+export function formatEvent(event: ThreadEvent): string | null {
+  switch (event.type) {
+    case "thread.started":
+      return `Thread started: ${event.thread_id}`;
+    case "item.started":
+      return `Started: ${formatItem(event.item)}`;
+    case "item.completed":
+      return `Completed: ${formatItem(event.item)}`;
+    case "turn.completed":
+      return `Turn completed. Tokens: ${formatUsage(event.usage)}`;
+    case "turn.failed":
+      return `Turn failed: ${event.error.message}`;
+    case "error":
+      return `Error: ${event.message}`;
+    default:
+      return null;
+  }
+}
+
+// ============ Turn Cancellation ============
+
+/**
+ * Create the AbortController for a single Codex turn. Aborting it kills the
+ * turn's `codex exec` process; aborting the session signal aborts it too.
+ */
+export function createTurnController(sessionSignal?: AbortSignal): AbortController {
+  const controller = new AbortController();
+  if (sessionSignal?.aborted) {
+    controller.abort(sessionSignal.reason);
+  } else {
+    sessionSignal?.addEventListener("abort", () => controller.abort(sessionSignal.reason), { once: true });
+  }
+  return controller;
+}
+
+/**
+ * Abort a turn and wait (bounded) for its event stream to wind down, so the
+ * Codex process is gone before another turn starts on the same thread.
+ */
+async function killTurn(turnController: AbortController, pending: Promise<unknown>) {
+  turnController.abort(new Error("Turn stalled"));
+
+  let timeoutId: NodeJS.Timeout;
+  await Promise.race([
+    pending.catch(() => {}),
+    new Promise<void>((resolve) => {
+      timeoutId = setTimeout(resolve, TURN_SHUTDOWN_GRACE_MS);
+    }),
+  ]);
+  clearTimeout(timeoutId!);
+}
+
+// ============ Stall Policy ============
+
+function toStallPolicy(stall: StallPolicy | number): StallPolicy {
+  return typeof stall === "number"
+    ? { idleTimeoutMs: stall, commandTimeoutMs: stall, reasoningTimeoutMs: stall }
+    : stall;
+}
+
+function formatDuration(ms: number): string {
+  const minutes = ms / 60000;
+  return minutes >= 1 ? `${Math.round(minutes)}m` : `${Math.round(ms / 1000)}s`;
+}
+
+interface InFlightItem {
+  item: ThreadItem;
+  startedAt: number;
+}
+
+/**
+ * Pick the timeout for the next wait from the items in flight, with a
+ * function describing the stall should that timeout fire.
+ */
+function nextStallWait(
+  policy: StallPolicy,
+  inFlight: Map<string, InFlightItem>,
+  lastEventAt: number
+): { timeoutMs: number; describe: () => string } {
+  const running = [...inFlight.values()];
+  const command = running
+    .filter((r) => r.item.type === "command_execution")
+    .sort((a, b) => a.startedAt - b.startedAt)[0];
+  if (command && command.item.type === "command_execution") {
+    const commandLine = command.item.command;
+    return {
+      timeoutMs: policy.commandTimeoutMs,
+      describe: () => `command \`${commandLine}\` running ${formatDuration(Date.now() - command.startedAt)}`,
+    };
+  }
+  if (running.some((r) => r.item.type === "reasoning")) {
+    return {
+      timeoutMs: policy.reasoningTimeoutMs,
+      describe: () => `reasoning with no events ${formatDuration(Date.now() - lastEventAt)}`,
+    };
+  }
+  return {
+    timeoutMs: policy.idleTimeoutMs,
+    describe: () => `no events ${formatDuration(Date.now() - lastEventAt)}`,
+  };
+}
+
+// ============ Stall Detection Event Processing ============
+
+/**
+ * Process events with stall detection.
+ * If no event is received within the timeout for what is currently in flight
+ * (a command, reasoning, or nothing), or the run's deadline passes, kills the
+ * turn and marks as stalled. If the session signal is aborted, stops and marks as cancelled.
+ */
+export async function processEventsWithStallDetection(
+  events: AsyncIterable<ThreadEvent>,
+  progressLog: string,
+  stall: StallPolicy | number = DEFAULT_STALL_TIMEOUT_MS,
+  hooks: SessionHooks = {},
+  turnController: AbortController = createTurnController(hooks.signal)
+): Promise<EventProcessingResult> {
+  const policy = toStallPolicy(stall);
+  const items: ThreadItem[] = [];
+  let threadId: string | null = null;
+  let finalResponse = "";
+  let usage: Usage | null = null;
+  let stalled = false;
+  let budgetExceeded = false;
+  let stallReason: string | undefined;
+  let cancelled = false;
+  const turnErrors: TurnError[] = [];
+
+  const inFlight = new Map<string, InFlightItem>();
+  let lastEventAt = Date.now();
+
+  const iterator = events[Symbol.asyncIterator]();
+
+  while (true) {
+    const wait = nextStallWait(policy, inFlight, lastEventAt);
+    const remainingBudget = policy.deadline !== undefined ? policy.deadline - Date.now() : Infinity;
+    const overBudget = remainingBudget <= wait.timeoutMs;
+
+    // Create a timeout promise
+    let timeoutId: NodeJS.Timeout;
+    const timeoutPromise = new Promise<{ done: true; value: undefined; timeout: true }>((resolve) => {
+      timeoutId = setTimeout(() => {
+        resolve({ done: true, value: undefined, timeout: true });
+      }, Math.max(0, Math.min(wait.timeoutMs, remainingBudget)));
+    });
+
+    // Race between next event and timeout
+    const pending = iterator.next().then((r) => ({ ...r, timeout: false }));
+    let result;
+    try {
+      result = await Promise.race([pending, timeoutPromise]);
+    } catch (error) {
+      if (hooks.signal?.aborted) {
+        writeProgress(progressLog, "🛑 Session cancelled");
+        cancelled = true;
+        break;
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId!);
+    }
+
+    // Check if timed out
+    if (result.timeout) {
+      budgetExceeded = overBudget;
+      stallReason = overBudget
+        ? `max duration ${formatDuration(policy.maxDurationMs ?? 0)} exceeded`
+        : wait.describe();
+      writeProgress(
+        progressLog,
+        overBudget ? `⏱️ BUDGET EXCEEDED: ${stallReason}` : `⚠️ STALL DETECTED: ${stallReason}`
+      );
+      await killTurn(turnController, pending);
+      writeProgress(progressLog, "Stalled turn aborted");
+      stalled = true;
+      break;
+    }
+
+    // Check if done
+    if (result.done) {
+      break;
+    }
+
+    const event = result.value as ThreadEvent;
+    lastEventAt = Date.now();
+    hooks.onEvent?.(event);
+
+    // Process event (same logic as before)
+    switch (event.type) {
+      case "thread.started":
+        threadId = event.thread_id;
+        writeProgress(progressLog, `Thread started: ${threadId}`);
+        break;
+
+      case "turn.started":
+        writeProgress(progressLog, "Turn started");
+        break;
+
+      case "item.started":
+        inFlight.set(event.item.id, { item: event.item, startedAt: lastEventAt });
+        writeProgress(progressLog, `Started: ${formatItem(event.item, 100, redactorForLog(progressLog))}`);
+        break;
+
+      case "item.updated": {
+        const running = inFlight.get(event.item.id);
+        if (running) running.item = event.item;
+        writeProgress(progressLog, `Updated: ${formatItem(event.item, 100, redactorForLog(progressLog))}`);
+        break;
+      }
+
+      case "item.completed":
+        inFlight.delete(event.item.id);
+        // The log keeps completed messages whole; only live updates are clipped
+        writeProgress(progressLog, `Completed: ${formatItem(event.item, Infinity, redactorForLog(progressLog))}`);
+        items.push(event.item);
+        if (event.item.type === "agent_message") {
+          finalResponse = event.item.text;
+        }
+        break;
+
+      case "turn.completed":
+        usage = { ...event.usage };
+        writeProgress(progressLog, `Turn completed. Tokens: ${formatUsage(event.usage)}`);
+        break;
+
+      case "turn.failed":
+        turnErrors.push({ type: "turn.failed", message: event.error.message });
+        writeProgress(progressLog, `Turn failed: ${event.error.message}`);
+        break;
+
+      case "error":
+        turnErrors.push({ type: "error", message: event.message });
+        writeProgress(progressLog, `Error: ${event.message}`);
+        break;
+    }
+  }
+
+  return { items, threadId, finalResponse, usage, stalled, budgetExceeded, stallReason, cancelled, turnErrors };
+}
+
+function toRecoveryPolicy(recovery: RecoveryPolicy | number): RecoveryPolicy {
+  return typeof recovery === "number"
+    ? {
+        maxAttempts: recovery,
+        strategies: DEFAULT_RECOVERY_STRATEGIES,
+        language: DEFAULT_RECOVERY_LANGUAGE,
+        backoffMs: 0,
+      }
+    : recovery;
+}
+
+/** What an attempt needs to know about the stalled work. */
+export interface StalledTurn {
+  threadId: string;
+  /** Items completed so far by the stalled turn and earlier attempts. */
+  items: ThreadItem[];
+}
+
+/**
+ * Attempt to recover a stalled session with the strategy for this attempt:
+ * nudge the stalled thread, or escalate to a fresh thread seeded with a summary.
+ */
+export async function attemptRecovery(
+  stalledTurn: StalledTurn,
+  progressLog: string,
+  attempt: number,
+  recovery: RecoveryPolicy | number,
+  stall: StallPolicy | number,
+  hooks: SessionHooks = {}
+): Promise<EventProcessingResult & { recoverySuccess: boolean; strategy: RecoveryStrategy }> {
+  const policy = toRecoveryPolicy(recovery);
+  const strategy = strategyForAttempt(policy.strategies, attempt);
+  writeProgress(progressLog, `🔄 Recovery attempt ${attempt}/${policy.maxAttempts} (${strategy})...`);
+
+  const recoveryPrompt = strategy === "fresh-thread"
+    ? buildFreshThreadPrompt(policy.language, policy.task ?? "", stalledTurn.items)
+    : buildNudgePrompt(policy.language, policy.nudgePrompt);
+  writeProgress(progressLog, `Recovery prompt:\n${recoveryPrompt}`);
+
+  let thread: BackendThread | undefined;
+  try {
+    const backend = createBackend();
+    thread = strategy === "fresh-thread"
+      ? backend.startThread(policy.threadOptions)
+      : backend.resumeThread(stalledTurn.threadId, policy.threadOptions);
+    const turnController = createTurnController(hooks.signal);
+    const { events } = await thread.runStreamed(recoveryPrompt, {
+      signal: turnController.signal,
+      outputSchema: policy.outputSchema,
+    });
+
+    const result = await processEventsWithStallDetection(events, progressLog, stall, hooks, turnController);
+    const threadId = result.threadId ?? thread.id;
+
+    if (result.cancelled) {
+      return { ...result, threadId, recoverySuccess: false, strategy };
+    }
+
+    if (result.stalled) {
+      writeProgress(progressLog, `❌ Recovery attempt ${attempt} failed: still stalled (${result.stallReason})`);
+      return { ...result, threadId, recoverySuccess: false, strategy };
+    }
+
+    writeProgress(
+      progressLog,
+      strategy === "fresh-thread"
+        ? `✅ Recovery attempt ${attempt} succeeded on fresh thread ${threadId}`
+        : `✅ Recovery attempt ${attempt} succeeded`
+    );
+    return { ...result, threadId, recoverySuccess: true, strategy };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    writeProgress(progressLog, `❌ Recovery attempt ${attempt} error: ${errorMessage}`);
+    return {
+      items: [],
+      threadId: thread?.id ?? (strategy === "fresh-thread" ? null : stalledTurn.threadId),
+      finalResponse: "",
+      usage: null,
+      stalled: true,
+      budgetExceeded: false,
+      cancelled: hooks.signal?.aborted ?? false,
+      turnErrors: [],
+      error: errorMessage,
+      recoverySuccess: false,
+      strategy,
+    };
+  }
+}
+
+/** Wait out the backoff before an attempt, bounded by the run's deadline. False if cancelled. */
+async function waitBeforeAttempt(ms: number, stall: StallPolicy | number, progressLog: string, signal?: AbortSignal) {
+  const { deadline } = toStallPolicy(stall);
+  const waitMs = deadline !== undefined ? Math.min(ms, Math.max(0, deadline - Date.now())) : ms;
+  if (waitMs <= 0) return true;
+  writeProgress(progressLog, `Waiting ${formatDuration(waitMs)} before the next recovery attempt`);
+  try {
+    await delay(waitMs, signal);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Run Codex with automatic stall detection and recovery.
+ */
+export async function runWithStallRecovery(
+  events: AsyncIterable<ThreadEvent>,
+  progressLog: string,
+  getThreadId: () => string | null,
+  stall: StallPolicy | number = DEFAULT_STALL_TIMEOUT_MS,
+  recoveryPolicy: RecoveryPolicy | number = DEFAULT_MAX_RECOVERY_ATTEMPTS,
+  hooks: SessionHooks = {},
+  turnController?: AbortController
+): Promise<{
+  result: EventProcessingResult;
+  recovery: RecoveryInfo;
+  /** Usage of every turn that reported it, the original turn first. */
+  usage: TurnUsage[];
+}> {
+  const policy = toRecoveryPolicy(recoveryPolicy);
+
+  // First attempt
+  let result = await processEventsWithStallDetection(events, progressLog, stall, hooks, turnController);
+  const usage: TurnUsage[] = [];
+  if (result.usage) usage.push({ kind: "turn", threadId: result.threadId || getThreadId(), ...result.usage });
+
+  const recovery: RecoveryInfo = {
+    attempted: false,
+    attempts: 0,
+    recovered: false,
+    history: [],
+  };
+
+  // If stalled (not out of budget) and we have a threadId, attempt recovery
+  const originalThreadId = result.threadId || getThreadId();
+  if (result.stalled && !result.budgetExceeded && originalThreadId) {
+    recovery.attempted = true;
+    recovery.stallReason = result.stallReason;
+    // Later attempts continue whichever thread the last attempt ran on
+    let threadId = originalThreadId;
+    let items = result.items;
+    let turnErrors = result.turnErrors;
+
+    for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+      const delayMs = backoffDelayMs(policy.backoffMs, attempt);
+      if (!(await waitBeforeAttempt(delayMs, stall, progressLog, hooks.signal))) {
+        writeProgress(progressLog, "🛑 Session cancelled");
+        result = { ...result, cancelled: true };
+        break;
+      }
+      recovery.attempts = attempt;
+
+      const recoveryResult = await attemptRecovery({ threadId, items }, progressLog, attempt, policy, stall, hooks);
+      items = [...items, ...recoveryResult.items];
+      turnErrors = [...turnErrors, ...recoveryResult.turnErrors];
+      if (recoveryResult.threadId) threadId = recoveryResult.threadId;
+      if (recoveryResult.usage) usage.push({ kind: "recovery", threadId: recoveryResult.threadId, ...recoveryResult.usage });
+
+      const record: RecoveryAttempt = {
+        attempt,
+        strategy: recoveryResult.strategy,
+        threadId: recoveryResult.threadId,
+        outcome: recoveryResult.recoverySuccess
+          ? "recovered"
+          : recoveryResult.cancelled
+            ? "cancelled"
+            : recoveryResult.budgetExceeded
+              ? "budget-exceeded"
+              : recoveryResult.error
+                ? "error"
+                : "stalled",
+        delayMs,
+        stallReason: recoveryResult.stallReason,
+        error: recoveryResult.error,
+      };
+      recovery.history.push(record);
+
+      if (recoveryResult.recoverySuccess) {
+        recovery.recovered = true;
+        // Merge items from recovery
+        result = {
+          ...recoveryResult,
+          items,
+          turnErrors,
+          threadId,
+        };
+        break;
+      }
+
+      if (recoveryResult.cancelled) {
+        result = { ...result, items, turnErrors, cancelled: true };
+        break;
+      }
+
+      if (recoveryResult.budgetExceeded) {
+        result = { ...result, items, turnErrors, budgetExceeded: true, stallReason: recoveryResult.stallReason };
+        recovery.lastError = recoveryResult.stallReason;
+        break;
+      }
+
+      result = { ...result, items, turnErrors };
+      recovery.lastError = recoveryResult.error || "Still stalled after recovery attempt";
+    }
+
+    if (threadId !== originalThreadId) {
+      recovery.escalatedThreadId = threadId;
+      result = { ...result, threadId };
+    }
+
+    if (!recovery.recovered && !result.cancelled && !result.budgetExceeded) {
+      writeProgress(progressLog, `🛑 All recovery attempts failed. Manual intervention required.`);
+    }
+  }
+
+  return { result, recovery, usage };
+}
+
+// ============ Session Execution ============
+
+/** Combine recovery info from consecutive turns on the same thread. */
+function mergeRecoveryInfo(previous: RecoveryInfo, next: RecoveryInfo): RecoveryInfo {
+  if (!next.attempted) return previous;
+  return {
+    attempted: true,
+    attempts: previous.attempts + next.attempts,
+    recovered: next.recovered,
+    stallReason: next.stallReason ?? previous.stallReason,
+    lastError: next.lastError ?? previous.lastError,
+    escalatedThreadId: next.escalatedThreadId ?? previous.escalatedThreadId,
+    history: [...previous.history, ...next.history],
+  };
+}
+
+/** Persist a session record; a store failure must not fail the session itself. */
+function recordSession(record: SessionRecord, turns: TurnMetrics[], progressLog: string) {
+  try {
+    appendSessionRecord(record);
+    appendSessionMetrics(buildSessionMetrics(record, turns));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    writeProgress(progressLog, `Failed to record session: ${errorMessage}`);
+  }
+}
+
+/** Undo an out-of-scope change from the session's baseline, recording the outcome on the violation. */
+async function revertOutOfScope(baseline: DiffBaseline | undefined, violation: ScopeViolation, progressLog: string) {
+  try {
+    if (!baseline) throw new Error("no baseline of cwd to restore from");
+    await restoreFromBaseline(baseline, violation.path);
+    violation.reverted = true;
+    writeProgress(progressLog, `↩️ Reverted ${violation.path}`);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    violation.reverted = false;
+    violation.error = errorMessage;
+    writeProgress(progressLog, `❌ Could not revert ${violation.path}: ${errorMessage}`);
+  }
+}
+
+async function verifySession(
+  commands: string[],
+  cwd: string | undefined,
+  timeoutMinutes: number,
+  progressLog: string
+): Promise<VerificationReport> {
+  writeProgress(progressLog, "Running verification...");
+  const report = await runVerification(commands, cwd, timeoutMinutes);
+  for (const r of report.results) {
+    const status = r.passed ? "✅" : r.timedOut ? "⏱️ timed out" : `❌ exit ${r.exitCode ?? "?"}`;
+    writeProgress(progressLog, `Verify: ${r.command} ${status} (${Math.round(r.durationMs / 1000)}s)`);
+  }
+  return report;
+}
+
+export interface SessionArgs extends AttachmentArgs {
+  prompt: string;
+  /** When set, the session continues this thread instead of starting a new one. */
+  threadId?: string;
+  /** Branch a new thread from this thread id and continue the new one; the original is left as it is. */
+  forkFrom?: string;
+  cwd?: string;
+  model?: string;
+  sandboxMode?: SandboxMode;
+  approvalPolicy?: ApprovalMode;
+  level?: ExecutionLevel;
+  /** Project instructions, git state and files of cwd to pack into the prompt. */
+  context?: ContextOptions;
+  stallTimeoutMinutes?: number;
+  commandTimeoutMinutes?: number;
+  reasoningTimeoutMinutes?: number;
+  maxDurationMinutes?: number;
+  maxInputTokens?: number;
+  maxOutputTokens?: number;
+  maxRecoveryAttempts?: number;
+  recoveryStrategies?: RecoveryStrategy[];
+  recoveryLanguage?: RecoveryLanguage;
+  recoveryPrompt?: string;
+  recoveryBackoffSeconds?: number;
+  /** Globs (relative to cwd) Codex may change. */
+  allowedPaths?: string[];
+  /** Globs (relative to cwd) Codex must not change. */
+  deniedPaths?: string[];
+  /** What to do when a file change falls outside allowedPaths/deniedPaths (default: flag). */
+  scopeAction?: ScopeAction;
+  /** Return a unified diff of every file Codex changed. */
+  includeDiff?: boolean;
+  /** Cap on the total size of returned diffs. */
+  maxDiffBytes?: number;
+  /** Checkpoint cwd before the session, for `rollback` (default: in git repositories only). */
+  checkpoints?: boolean;
+  /** JSON Schema the final message must follow; the parsed result is returned as `structuredContent`. */
+  outputSchema?: Record<string, unknown>;
+  /** Re-asks on the same thread when the final message does not match `outputSchema`. */
+  outputSchemaRetries?: number;
+  /** How much failure detail the summary carries (default: compact). */
+  verbosity?: Verbosity;
+  /** Run a new thread in a temporary git worktree instead of `cwd` itself. */
+  isolation?: "worktree";
+  verify?: string[];
+  verifyTimeoutMinutes?: number;
+  autoFixAttempts?: number;
+}
+
+export interface SessionSummary {
+  sessionId: string;
+  threadId: string | null;
+  level: string;
+  resultLevel: ResultLevel;
+  /** Why the result is not a plain PASS; empty when it is. */
+  reasons: string[];
+  content: string;
+  progressLog: string | null;
+  /** JSONL file of every ThreadEvent, when the `logs.eventLog` config is on. */
+  eventLog?: string;
+  /** Codex's own rollout file for the thread, when it could be found. */
+  rolloutFile?: string | null;
+  /** With `forkFrom`: the thread this one was branched from. */
+  forkedFrom?: string;
+  /** State of cwd before the session; `rollback` restores it. */
+  checkpoint?: Checkpoint;
+  /** With `context`: the sections packed into the prompt, and what was truncated or left out. */
+  context?: ContextReport;
+  /** Secrets replaced in the progress log and this summary; absent when there were none. */
+  redactions?: RedactionReport;
+  stats: {
+    totalItems: number;
+    commands: number;
+    fileChanges: number;
+    mcpCalls: number;
+    /** Total over every turn of this session, including recovery and auto-fix turns. */
+    usage: Usage | null;
+    turnUsage: TurnUsage[];
+    /** Total over every recorded session of the thread, this one included. */
+    threadUsage: Usage | null;
+    /** Lines added/removed per changed file, when a baseline of cwd could be taken. */
+    diffStat?: DiffStatEntry[];
+  };
+  filesModified: string[];
+  /** With `includeDiff`: unified diff per changed file, capped at `maxDiffBytes` in total. */
+  diffs?: FileDiff[];
+  /** With verbosity `full`: turn failures, errors, failed commands (with output tails) and failed file changes. */
+  failures?: SessionFailures;
+  /** With verbosity `markdown`: the result, reasons and failures as a markdown report. */
+  report?: string;
+  /** With `outputSchema`: the final message parsed as JSON, when it matched the schema. */
+  structuredContent?: unknown;
+  /** With `outputSchema`: whether the final message matched, after how many re-asks. Invalid output makes the result FAIL. */
+  structuredOutput?: { valid: boolean; retries: number; error?: string };
+  /** File changes outside allowedPaths/deniedPaths; any of them makes the result FAIL. */
+  scopeViolations?: ScopeViolation[];
+  recovery?: RecoveryInfo;
+  /** Why the session (or the turn that needed recovery) was considered stalled. */
+  stallReason?: string;
+  /** Set when `maxInputTokens` or `maxOutputTokens` stopped the session. */
+  tokenBudgetExceeded?: string;
+  worktree?: { path: string; branch: string; baseCommit: string };
+  verification?: VerificationReport & { fixAttempts: number };
+  needsUserInput: boolean;
+}
+
+export type SessionResponse = SessionSummary | { sessionId?: string; error: string; resultLevel: ResultLevel };
+
+/** Apply log retention after a session; a failure must not affect its result. */
+function pruneLogs(config: SubcodexConfig) {
+  try {
+    applyLogRetention(config.logs);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`Log retention failed: ${errorMessage}`);
+  }
+}
+
+/** Working directory of threads started by this server, so replies resume in place. */
+const threadWorkingDirectories = new Map<string, string>();
+
+/** Where a thread last ran: this server's map, else the session store (e.g. after a restart). */
+function threadWorkingDirectory(threadId: string): string | undefined {
+  return threadWorkingDirectories.get(threadId) ?? findThreadWorkingDirectory(threadId);
+}
+
+/**
+ * Branch a new thread from `threadId`; it resumes in the same working directory.
+ * A thread isolated in a worktree cannot be forked: its worktree belongs to
+ * that one thread, and apply/discard would pull it out from under the fork.
+ */
+export function forkThread(threadId: string): string {
+  const worktree = findWorktreeByThread(threadId);
+  if (worktree) {
+    throw new Error(
+      `Thread ${threadId} runs in worktree ${worktree.id}; apply or discard it before forking`
+    );
+  }
+  const forkedId = forkRolloutFile(threadId);
+  const cwd = threadWorkingDirectory(threadId);
+  if (cwd) threadWorkingDirectories.set(forkedId, cwd);
+  return forkedId;
+}
+
+/**
+ * Run (or resume) a Codex thread with stall detection and recovery,
+ * and build the summary returned to the MCP client.
+ */
+export async function executeSession(args: SessionArgs, hooks: SessionHooks = {}): Promise<SessionResponse> {
+  const { prompt, forkFrom } = args;
+  let resumeThreadId = args.threadId;
+  if (forkFrom) {
+    try {
+      resumeThreadId = forkThread(forkFrom);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { error: errorMessage, resultLevel: "ERROR" };
+    }
+  }
+  let worktree = resumeThreadId ? findWorktreeByThread(resumeThreadId) : undefined;
+  let cwd = args.cwd
+    ?? worktree?.workingDirectory
+    ?? (resumeThreadId ? threadWorkingDirectory(resumeThreadId) : undefined);
+
+  // Tool arguments override the level profile from config
+  let config: SubcodexConfig;
+  try {
+    config = loadConfig(cwd);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { error: errorMessage, resultLevel: "ERROR" };
+  }
+  const effectiveLevel = args.level || config.defaultLevel || "L2";
+  const profile = resolveProfile(config, effectiveLevel);
+  const model = args.model ?? profile.model;
+  const sandboxMode = args.sandboxMode ?? profile.sandboxMode;
+  const approvalPolicy = args.approvalPolicy ?? profile.approvalPolicy;
+  const stallTimeoutMinutes = args.stallTimeoutMinutes ?? profile.stallTimeoutMinutes ?? 5;
+  const maxAttempts = args.maxRecoveryAttempts ?? profile.maxRecoveryAttempts ?? DEFAULT_MAX_RECOVERY_ATTEMPTS;
+  const commandTimeoutMinutes = args.commandTimeoutMinutes ?? profile.commandTimeoutMinutes
+    ?? Math.max(stallTimeoutMinutes, DEFAULT_COMMAND_TIMEOUT_MINUTES);
+  const reasoningTimeoutMinutes = args.reasoningTimeoutMinutes ?? profile.reasoningTimeoutMinutes ?? stallTimeoutMinutes;
+  const maxDurationMinutes = args.maxDurationMinutes ?? profile.maxDurationMinutes;
+  const stallPolicy: StallPolicy = {
+    idleTimeoutMs: stallTimeoutMinutes * 60 * 1000,
+    commandTimeoutMs: commandTimeoutMinutes * 60 * 1000,
+    reasoningTimeoutMs: reasoningTimeoutMinutes * 60 * 1000,
+    deadline: maxDurationMinutes !== undefined ? Date.now() + maxDurationMinutes * 60 * 1000 : undefined,
+    maxDurationMs: maxDurationMinutes !== undefined ? maxDurationMinutes * 60 * 1000 : undefined,
+  };
+  const recoveryStrategies = args.recoveryStrategies ?? profile.recoveryStrategies ?? DEFAULT_RECOVERY_STRATEGIES;
+  const recoveryBackoffSeconds = args.recoveryBackoffSeconds ?? profile.recoveryBackoffSeconds ?? 0;
+  const verify = args.verify ?? profile.verify ?? [];
+  const verifyTimeoutMinutes = args.verifyTimeoutMinutes ?? profile.verifyTimeoutMinutes ?? DEFAULT_VERIFY_TIMEOUT_MINUTES;
+  const autoFixAttempts = args.autoFixAttempts ?? profile.autoFixAttempts ?? 0;
+  const pathScope: PathScope = {
+    allowedPaths: args.allowedPaths ?? profile.allowedPaths,
+    deniedPaths: args.deniedPaths ?? profile.deniedPaths,
+  };
+  const scopeAction = args.scopeAction ?? profile.scopeAction ?? "flag";
+  const includeDiff = args.includeDiff ?? profile.includeDiff ?? false;
+  // Unset: checkpoint git repositories (a commit of the baseline tree), but do
+  // not copy a plain directory before every session
+  const checkpointSetting = args.checkpoints ?? profile.checkpoints;
+  const maxDiffBytes = args.maxDiffBytes ?? profile.maxDiffBytes ?? DEFAULT_MAX_DIFF_BYTES;
+  const tokenBudget = {
+    maxInputTokens: args.maxInputTokens ?? profile.maxInputTokens,
+    maxOutputTokens: args.maxOutputTokens ?? profile.maxOutputTokens,
+  };
+  const verbosity = args.verbosity ?? profile.verbosity ?? DEFAULT_VERBOSITY;
+  const outputSchema = args.outputSchema ?? profile.outputSchema;
+  const outputSchemaRetries = args.outputSchemaRetries ?? profile.outputSchemaRetries ?? DEFAULT_OUTPUT_SCHEMA_RETRIES;
+  let validateOutput: ((text: string) => OutputValidation) | undefined;
+  try {
+    validateOutput = outputSchema !== undefined ? compileOutputSchema(outputSchema) : undefined;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { error: errorMessage, resultLevel: "ERROR" };
+  }
+  let attachments: Attachments;
+  try {
+    attachments = resolveAttachments(args, cwd ?? process.cwd());
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { error: errorMessage, resultLevel: "ERROR" };
+  }
+  let packedContext: { text: string; report: ContextReport } | undefined;
+  try {
+    packedContext = args.context ? await packContext(args.context, cwd ?? process.cwd()) : undefined;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { error: errorMessage, resultLevel: "ERROR" };
+  }
+  const input = buildTurnInput(
+    appendContext(
+      !resumeThreadId && profile.promptPreamble ? `${profile.promptPreamble}\n\n${prompt}` : prompt,
+      packedContext?.text ?? ""
+    ),
+    attachments
+  );
+
+  const sessionId = crypto.randomUUID().slice(0, 8);
+  const startedAt = new Date().toISOString();
+  const progressLog = path.join(LOG_DIR, `progress-${effectiveLevel}-${sessionId}.log`);
+  const eventLog = config.logs?.eventLog
+    ? path.join(LOG_DIR, `events-${effectiveLevel}-${sessionId}.jsonl`)
+    : undefined;
+  const activeLogs = eventLog ? [progressLog, eventLog] : [progressLog];
+  activeLogs.forEach(markLogActive);
+  // Redacts the progress log and the summary, counting replacements; stored and
+  // streamed copies (session store, event log, notifications) are redacted uncounted
+  const redactions = emptyRedactionReport();
+  const redactor = createRedactor(config.redaction, redactions);
+  const quietRedactor = createRedactor(config.redaction);
+  setLogRedactor(progressLog, redactor);
+  // Rename finished logs with the result level and prune old ones
+  const finishLogs = (resultLevel: ResultLevel) => {
+    const renamed = activeLogs.map((logPath) => renameLogWithLevel(logPath, resultLevel));
+    activeLogs.forEach(markLogInactive);
+    clearLogRedactor(progressLog);
+    renamed.forEach(notifyLogChanged);
+    return renamed;
+  };
+
+  clearProgressLog(progressLog);
+  if (forkFrom) writeProgress(progressLog, `Forked thread ${forkFrom} as ${resumeThreadId}`);
+  if (resumeThreadId) writeProgress(progressLog, `Continuing thread: ${resumeThreadId}`);
+  writeProgress(progressLog, `Prompt: ${prompt}`);
+  for (const line of describeAttachments(attachments)) writeProgress(progressLog, line);
+  if (packedContext) {
+    for (const line of describeContext(packedContext.report)) writeProgress(progressLog, line);
+  }
+  if (cwd) writeProgress(progressLog, `Working directory: ${cwd}`);
+  writeProgress(
+    progressLog,
+    `Stall timeout: ${stallTimeoutMinutes} min (commands: ${commandTimeoutMinutes} min, reasoning: ${reasoningTimeoutMinutes} min), Max recovery: ${maxAttempts}`
+  );
+  writeProgress(
+    progressLog,
+    `Recovery strategies: ${recoveryStrategies.join(" → ")}, backoff: ${recoveryBackoffSeconds}s`
+  );
+  if (maxDurationMinutes !== undefined) writeProgress(progressLog, `Max duration: ${maxDurationMinutes} min`);
+  if (tokenBudget.maxInputTokens !== undefined || tokenBudget.maxOutputTokens !== undefined) {
+    writeProgress(
+      progressLog,
+      `Token budget: ${tokenBudget.maxInputTokens ?? "unlimited"} in / ${tokenBudget.maxOutputTokens ?? "unlimited"} out`
+    );
+  }
+  if (model || sandboxMode || approvalPolicy) {
+    writeProgress(
+      progressLog,
+      `Model: ${model ?? "default"}, Sandbox: ${sandboxMode ?? "default"}, Approval: ${approvalPolicy ?? "default"}`
+    );
+  }
+  if (approvalPolicy && approvalPolicy !== "never") {
+    writeProgress(
+      progressLog,
+      "Approval requests: not forwarded to the client (codex exec has no channel for them)"
+    );
+  }
+  if (verify.length > 0) {
+    writeProgress(progressLog, `Verify: ${verify.join(" && ")} (auto-fix attempts: ${autoFixAttempts})`);
+  }
+  if (hasPathScope(pathScope)) {
+    writeProgress(
+      progressLog,
+      `Path scope: allowed ${pathScope.allowedPaths?.join(", ") || "*"}, denied ${pathScope.deniedPaths?.join(", ") || "none"} (on violation: ${scopeAction})`
+    );
+  }
+  if (validateOutput) writeProgress(progressLog, `Output schema: enforced (re-asks: ${outputSchemaRetries})`);
+
+  // Every turn's usage, in order; budgets are checked against the running total
+  const usageLedger: TurnUsage[] = [];
+  // Timing and outcome of every turn, for the metrics store
+  const turnMetrics: TurnMetrics[] = [];
+  let tokenBudgetExceeded: string | undefined;
+  const scopeViolations: ScopeViolation[] = [];
+  const pendingReverts: Promise<void>[] = [];
+  // Aborted by the caller, or by a scope violation with scopeAction "abort"
+  const sessionController = createTurnController(hooks.signal);
+  let scopeAborted = false;
+  hooks = { ...hooks, signal: sessionController.signal };
+  let checkpoint: Checkpoint | undefined;
+  if (eventLog) {
+    fs.writeFileSync(eventLog, "");
+    const onEvent = hooks.onEvent;
+    hooks = {
+      ...hooks,
+      onEvent: (event) => {
+        appendEventLog(eventLog, event);
+        onEvent?.(event);
+      },
+    };
+  }
+  if (hooks.onEvent) {
+    const onEvent = hooks.onEvent;
+    hooks = { ...hooks, onEvent: (event) => onEvent(quietRedactor.redactValue(event)) };
+  }
+
+  try {
+    if (args.isolation === "worktree" && !resumeThreadId) {
+      worktree = await createWorktree(cwd ?? process.cwd(), sessionId);
+      cwd = worktree.workingDirectory;
+      writeProgress(progressLog, `Isolated in worktree: ${worktree.path} (branch ${worktree.branch})`);
+
+      // Link the thread as soon as it exists so diff/apply/discard can find it
+      const isolated = worktree;
+      const onEvent = hooks.onEvent;
+      hooks = {
+        ...hooks,
+        onEvent: (event) => {
+          if (event.type === "thread.started") {
+            isolated.threadId = event.thread_id;
+            linkWorktreeThread(isolated.id, event.thread_id);
+          }
+          onEvent?.(event);
+        },
+      };
+    }
+
+    // Baseline for diffs of what Codex changes (and for reverting out-of-scope edits
+    // and rollback), captured only when one of them needs it; a failure only costs
+    // the diff and the checkpoint
+    const needsSnapshot = includeDiff || (hasPathScope(pathScope) && scopeAction === "revert") || checkpointSetting === true;
+    let diffBaseline: DiffBaseline | undefined;
+    try {
+      if (needsSnapshot || checkpointSetting !== false) {
+        diffBaseline = await captureDiffBaseline(cwd ?? process.cwd(), needsSnapshot);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      writeProgress(progressLog, `Diff baseline unavailable: ${errorMessage}`);
+    }
+    if (diffBaseline && (checkpointSetting ?? diffBaseline.kind === "git")) {
+      try {
+        checkpoint = await createCheckpoint(diffBaseline, sessionId);
+        writeProgress(
+          progressLog,
+          checkpoint.kind === "git"
+            ? `Checkpoint: ${checkpoint.ref} (${checkpoint.commit.slice(0, 12)})`
+            : `Checkpoint: snapshot of ${checkpoint.files} files in ${checkpoint.dir}`
+        );
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        writeProgress(progressLog, `Checkpoint unavailable: ${errorMessage}`);
+      }
+    }
+
+    // Check every completed file change against the path scope as it arrives
+    if (hasPathScope(pathScope)) {
+      const scopeRoot = cwd ?? process.cwd();
+      const onEvent = hooks.onEvent;
+      hooks = {
+        ...hooks,
+        onEvent: (event) => {
+          onEvent?.(event);
+          if (event.type !== "item.completed" || event.item.type !== "file_change" || event.item.status !== "completed") {
+            return;
+          }
+          for (const change of event.item.changes) {
+            const relative = toRelativePath(scopeRoot, change.path);
+            const reason = checkPathScope(relative, pathScope);
+            if (!reason) continue;
+
+            const violation: ScopeViolation = { path: relative, kind: change.kind, reason, action: scopeAction };
+            scopeViolations.push(violation);
+            writeProgress(progressLog, `🚫 SCOPE VIOLATION: ${change.kind} ${relative} (${reason})`);
+
+            if (scopeAction === "revert") {
+              pendingReverts.push(revertOutOfScope(diffBaseline, violation, progressLog));
+            } else if (scopeAction === "abort" && !scopeAborted) {
+              scopeAborted = true;
+              writeProgress(progressLog, "🛑 Aborting session: file change outside path scope");
+              sessionController.abort();
+            }
+          }
+        },
+      };
+    }
+
+    const backend = createBackend();
+    const threadOptions = {
+      workingDirectory: cwd,
+      model,
+      sandboxMode,
+      approvalPolicy,
+    };
+    let thread = resumeThreadId
+      ? backend.resumeThread(resumeThreadId, threadOptions)
+      : backend.startThread(threadOptions);
+
+    writeProgress(
+      progressLog,
+      resumeThreadId
+        ? "Resuming Codex session (with stall detection)..."
+        : "Starting Codex session (with stall detection)..."
+    );
+
+    // Use stall detection and auto-recovery
+    const runTurn = async (turnInput: Input, kind: TurnUsage["kind"] = "turn") => {
+      const turnStartedAt = new Date();
+      const turnController = createTurnController(hooks.signal);
+      const { events } = await thread.runStreamed(turnInput, { signal: turnController.signal, outputSchema });
+      const turn = await runWithStallRecovery(
+        events,
+        progressLog,
+        () => thread.id,
+        stallPolicy,
+        {
+          maxAttempts,
+          strategies: recoveryStrategies,
+          language: args.recoveryLanguage ?? profile.recoveryLanguage ?? DEFAULT_RECOVERY_LANGUAGE,
+          nudgePrompt: args.recoveryPrompt ?? profile.recoveryPrompt,
+          backoffMs: recoveryBackoffSeconds * 1000,
+          threadOptions,
+          task: inputText(turnInput),
+          outputSchema,
+        },
+        hooks,
+        turnController
+      );
+      // A fresh-thread escalation replaces the thread for the rest of the session
+      if (turn.recovery.escalatedThreadId) {
+        thread = backend.resumeThread(turn.recovery.escalatedThreadId, threadOptions);
+        threadId = turn.recovery.escalatedThreadId;
+        if (cwd) threadWorkingDirectories.set(threadId, cwd);
+        // Keep diff/apply/discard and later replies pointed at the worktree
+        if (worktree) {
+          worktree.threadId = threadId;
+          linkWorktreeThread(worktree.id, threadId);
+        }
+      }
+
+      usageLedger.push(...turn.usage.map((u) => (u.kind === "turn" ? { ...u, kind } : u)));
+      turnMetrics.push({
+        kind,
+        startedAt: turnStartedAt.toISOString(),
+        finishedAt: new Date().toISOString(),
+        durationMs: Date.now() - turnStartedAt.getTime(),
+        usage: sumUsage(turn.usage),
+        stalled: turn.result.stalled || turn.recovery.attempted,
+        recovered: turn.recovery.recovered,
+        recoveryAttempts: turn.recovery.attempts,
+      });
+      tokenBudgetExceeded = checkTokenBudget(sumUsage(usageLedger), tokenBudget);
+      if (tokenBudgetExceeded) {
+        writeProgress(progressLog, `💸 TOKEN BUDGET EXCEEDED: ${tokenBudgetExceeded}`);
+      }
+      return turn;
+    };
+
+    let threadId: string | null = resumeThreadId ?? null;
+    let { result, recovery } = await runTurn(input);
+    let lastTurnStalled = result.stalled && !recovery.recovered;
+    threadId = threadId ?? result.threadId;
+    if (threadId && cwd) threadWorkingDirectories.set(threadId, cwd);
+
+    // Follow-up turns (auto-fix, schema re-ask) extend the session's result on the same thread
+    const continueTurn = async (turnInput: string, kind: TurnUsage["kind"]) => {
+      const next = await runTurn(turnInput, kind);
+      result = {
+        ...next.result,
+        items: [...result.items, ...next.result.items],
+        turnErrors: [...result.turnErrors, ...next.result.turnErrors],
+        threadId,
+      };
+      recovery = mergeRecoveryInfo(recovery, next.recovery);
+      lastTurnStalled = next.result.stalled && !next.recovery.recovered;
+    };
+
+    // Acceptance checks, feeding failures back to the thread while auto-fix attempts remain
+    let verification: SessionSummary["verification"];
+    const turnFinished = () => !result.cancelled && !lastTurnStalled;
+    if (verify.length > 0 && turnFinished()) {
+      let report = await verifySession(verify, cwd, verifyTimeoutMinutes, progressLog);
+      let fixAttempts = 0;
+      while (
+        !report.passed
+        && fixAttempts < autoFixAttempts
+        && threadId
+        && !tokenBudgetExceeded
+        && !hooks.signal?.aborted
+      ) {
+        fixAttempts++;
+        writeProgress(progressLog, `🔧 Auto-fix attempt ${fixAttempts}/${autoFixAttempts}...`);
+
+        await continueTurn(buildFixPrompt(report), "auto-fix");
+        if (!turnFinished()) break;
+
+        report = await verifySession(verify, cwd, verifyTimeoutMinutes, progressLog);
+      }
+      verification = { ...report, fixAttempts };
+    }
+
+    // Validate the final message against outputSchema, re-asking with the errors while retries remain
+    let structuredContent: unknown;
+    let structuredOutput: SessionSummary["structuredOutput"];
+    if (validateOutput && turnFinished()) {
+      let validation = validateOutput(result.finalResponse);
+      let retries = 0;
+      while (
+        !validation.valid
+        && retries < outputSchemaRetries
+        && threadId
+        && !tokenBudgetExceeded
+        && !hooks.signal?.aborted
+      ) {
+        retries++;
+        writeProgress(progressLog, `📐 Output does not match schema: ${validation.error}`);
+        writeProgress(progressLog, `📐 Schema re-ask ${retries}/${outputSchemaRetries}...`);
+
+        await continueTurn(buildSchemaRetryPrompt(validation.error, outputSchema), "schema-retry");
+        if (!turnFinished()) break;
+
+        validation = validateOutput(result.finalResponse);
+      }
+      if (validation.valid) {
+        structuredContent = validation.data;
+        structuredOutput = { valid: true, retries };
+      } else {
+        writeProgress(progressLog, `📐 OUTPUT SCHEMA NOT MET: ${validation.error}`);
+        structuredOutput = { valid: false, retries, error: validation.error };
+      }
+    }
+
+    await Promise.all(pendingReverts);
+    const { items, finalResponse } = result;
+    // A scope abort stops the session the same way a cancel does, but is a failure
+    const cancelled = result.cancelled && !scopeAborted;
+    const usage = usageLedger.length > 0 ? sumUsage(usageLedger) : null;
+    if (usage) writeProgress(progressLog, `Total tokens: ${formatUsage(usage)}`);
+
+    let fileDiffs: Array<FileDiff & DiffStatEntry> | undefined;
+    if (diffBaseline) {
+      try {
+        fileDiffs = await diffAgainstBaseline(diffBaseline, changedPaths(diffBaseline.cwd, items));
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        writeProgress(progressLog, `Diff unavailable: ${errorMessage}`);
+      }
+    }
+    const diffStat = fileDiffs?.map(({ path: filePath, added, removed, binary }) => ({ path: filePath, added, removed, binary }));
+
+    writeProgress(progressLog, "=== Session Complete ===");
+
+    // Determine result level (cancelled by caller = CANCELLED, stalled without recovery or
+    // out of time = TIMEOUT, otherwise classified from the turns; failed acceptance checks,
+    // over token budget, out of path scope or output not matching outputSchema = FAIL)
+    const hasUnrecoveredStall = lastTurnStalled && !cancelled;
+    const failures = collectFailures(items, result.turnErrors);
+    const reasons: string[] = [];
+    let resultLevel: ResultLevel;
+    if (cancelled) {
+      resultLevel = "CANCELLED";
+      reasons.push("cancelled by the caller");
+    } else if (hasUnrecoveredStall) {
+      resultLevel = "TIMEOUT";
+      reasons.push(`stalled: ${result.stallReason ?? recovery.stallReason ?? "unknown"}`);
+    } else {
+      const classification = classifyTurns(items, failures);
+      resultLevel = classification.level;
+      reasons.push(...classification.reasons);
+    }
+    if (verification && !verification.passed) {
+      const failed = verification.results.filter((r) => !r.passed).map((r) => r.command);
+      reasons.push(`acceptance checks failed: ${failed.join(", ")}`);
+    }
+    if (tokenBudgetExceeded) reasons.push(tokenBudgetExceeded);
+    if (scopeViolations.length > 0) {
+      reasons.push(`changed outside path scope: ${scopeViolations.map((v) => v.path).join(", ")}`);
+    }
+    if (structuredOutput && !structuredOutput.valid) {
+      reasons.push(`output does not match outputSchema: ${structuredOutput.error}`);
+    }
+    const failedChecks = (verification && !verification.passed)
+      || tokenBudgetExceeded
+      || scopeViolations.length > 0
+      || (structuredOutput && !structuredOutput.valid);
+    if ((resultLevel === "PASS" || resultLevel === "PARTIAL") && failedChecks) {
+      resultLevel = "FAIL";
+    }
+    writeProgress(progressLog, `Result: ${resultLevel}`);
+    for (const reason of reasons) writeProgress(progressLog, `Reason: ${reason}`);
+
+    // Build summary
+    const commandItems = items.filter(i => i.type === "command_execution");
+    const fileItems = items.filter(i => i.type === "file_change");
+    const mcpItems = items.filter(i => i.type === "mcp_tool_call");
+
+    // Rename logs with result level (keep the progress log for non-PASS results)
+    const [finalLogPath, finalEventLog] = finishLogs(resultLevel);
+    if (resultLevel === "PASS") {
+      try { fs.unlinkSync(finalLogPath); } catch {}
+      notifyLogChanged(finalLogPath);
+    }
+    pruneLogs(config);
+
+    const worktreeInfo = worktree
+      ? { path: worktree.workingDirectory, branch: worktree.branch, baseCommit: worktree.baseCommit }
+      : undefined;
+    const threadUsage = threadId ? addUsage(sumThreadUsage(threadId), usage) : usage;
+
+    recordSession(quietRedactor.redactValue({
+      sessionId,
+      threadId,
+      mode: forkFrom ? "fork" : resumeThreadId ? "reply" : "run",
+      level: effectiveLevel,
+      resultLevel,
+      reasons,
+      prompt,
+      cwd: cwd ?? null,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      items,
+      usage,
+      turnUsage: usageLedger,
+      diffStat,
+      scopeViolations: scopeViolations.length > 0 ? scopeViolations : undefined,
+      checkpoint,
+      forkedFrom: forkFrom,
+      recovery,
+      verification,
+      worktree: worktreeInfo,
+    }), turnMetrics, progressLog);
+
+    const summary: SessionSummary = redactor.redactValue({
+      sessionId,
+      threadId,
+      level: effectiveLevel,
+      resultLevel,
+      reasons,
+      content: finalResponse,
+      progressLog: resultLevel !== "PASS" ? finalLogPath : null,
+      eventLog: finalEventLog,
+      rolloutFile: threadId ? findRolloutFile(threadId) : null,
+      forkedFrom: forkFrom,
+      checkpoint,
+      context: packedContext?.report,
+      stats: {
+        totalItems: items.length,
+        commands: commandItems.length,
+        fileChanges: fileItems.length,
+        mcpCalls: mcpItems.length,
+        usage,
+        turnUsage: usageLedger,
+        threadUsage,
+        diffStat,
+      },
+      filesModified: fileItems.flatMap(i =>
+        i.type === "file_change" ? i.changes.map(c => `${c.kind}: ${c.path}`) : []
+      ),
+      diffs: includeDiff && fileDiffs ? capDiffs(fileDiffs, maxDiffBytes) : undefined,
+      failures: verbosity === "full" && hasFailures(failures) ? failures : undefined,
+      report: verbosity === "markdown" ? formatMarkdownReport(resultLevel, reasons, failures) : undefined,
+      structuredContent,
+      structuredOutput,
+      scopeViolations: scopeViolations.length > 0 ? scopeViolations : undefined,
+      recovery: recovery.attempted ? recovery : undefined,
+      stallReason: result.stallReason ?? recovery.stallReason,
+      tokenBudgetExceeded,
+      worktree: worktreeInfo,
+      verification,
+      needsUserInput: hasUnrecoveredStall,
+    });
+    return redactions.count > 0 ? { ...summary, redactions } : summary;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    writeProgress(progressLog, `Error: ${errorMessage}`);
+
+    // Determine error level and rename log
+    const resultLevel = scopeAborted
+      ? "FAIL"
+      : hooks.signal?.aborted
+        ? "CANCELLED"
+        : determineResultLevel([], true, errorMessage);
+    writeProgress(progressLog, `Result: ${resultLevel}`);
+    finishLogs(resultLevel);
+    pruneLogs(config);
+
+    recordSession(quietRedactor.redactValue({
+      sessionId,
+      threadId: resumeThreadId ?? worktree?.threadId ?? null,
+      mode: forkFrom ? "fork" : resumeThreadId ? "reply" : "run",
+      level: effectiveLevel,
+      resultLevel,
+      prompt,
+      cwd: cwd ?? null,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      items: [],
+      usage: usageLedger.length > 0 ? sumUsage(usageLedger) : null,
+      turnUsage: usageLedger,
+      checkpoint,
+      forkedFrom: forkFrom,
+      recovery: null,
+      error: errorMessage,
+    }), turnMetrics, progressLog);
+
+    // A worktree whose thread never started has nothing worth keeping
+    if (worktree && !worktree.threadId) {
+      await discardWorktree(worktree);
+    }
+
+    return { sessionId, error: redactor.redact(`Codex Exec exited with code 1: ${errorMessage}`), resultLevel };
+  }
+}
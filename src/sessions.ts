@@ -0,0 +1,141 @@
+import type { ThreadItem, Usage } from "@openai/codex-sdk";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { sumUsage, type TurnUsage } from "./usage.js";
+import type { DiffStatEntry } from "./diff.js";
+import type { ScopeViolation } from "./scope.js";
+import type { Checkpoint } from "./checkpoints.js";
+
+// ============ Session Store ============
+
+export const SESSION_STORE_PATH = path.join(os.homedir(), ".subcodex", "sessions.jsonl");
+const DEFAULT_LIST_LIMIT = 20;
+
+/** One line of the session store: everything a single run/reply/fork did. */
+export interface SessionRecord {
+  sessionId: string;
+  threadId: string | null;
+  mode: "run" | "reply" | "fork";
+  level: string;
+  resultLevel: string;
+  /** Why the result is not a plain PASS; absent on records written before reasons were kept. */
+  reasons?: string[];
+  prompt: string;
+  cwd: string | null;
+  startedAt: string;
+  finishedAt: string;
+  items: ThreadItem[];
+  /** Session total; records written before cached tokens were tracked lack `cached_input_tokens`. */
+  usage: Partial<Usage> | null;
+  turnUsage?: TurnUsage[];
+  diffStat?: DiffStatEntry[];
+  scopeViolations?: ScopeViolation[];
+  /** State of cwd before the session, for `rollback`. */
+  checkpoint?: Checkpoint;
+  /** Set on the first session of a thread created by `fork`. */
+  forkedFrom?: string;
+  recovery: unknown;
+  verification?: unknown;
+  worktree?: unknown;
+  error?: string;
+}
+
+export interface SessionFilter {
+  cwd?: string;
+  level?: string;
+  resultLevel?: string;
+  threadId?: string;
+  /** ISO date or timestamp; sessions started at or after it. */
+  since?: string;
+  /** ISO date or timestamp; sessions started before it. */
+  until?: string;
+  limit?: number;
+}
+
+export function appendSessionRecord(record: SessionRecord) {
+  fs.mkdirSync(path.dirname(SESSION_STORE_PATH), { recursive: true });
+  fs.appendFileSync(SESSION_STORE_PATH, `${JSON.stringify(record)}\n`);
+}
+
+/** All records, oldest first. Unparseable lines (e.g. a torn write) are skipped. */
+export function readSessionRecords(): SessionRecord[] {
+  if (!fs.existsSync(SESSION_STORE_PATH)) return [];
+  const records: SessionRecord[] = [];
+  for (const line of fs.readFileSync(SESSION_STORE_PATH, "utf8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line) as SessionRecord);
+    } catch {
+      // Skip corrupt line
+    }
+  }
+  return records;
+}
+
+function parseDate(value: string, field: string): number {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid ${field} date: ${value}`);
+  }
+  return time;
+}
+
+/** Matching records, newest first, at most `limit`. */
+export function findSessionRecords(filter: SessionFilter = {}): SessionRecord[] {
+  const since = filter.since ? parseDate(filter.since, "since") : undefined;
+  const until = filter.until ? parseDate(filter.until, "until") : undefined;
+  const cwd = filter.cwd ? path.resolve(filter.cwd) : undefined;
+
+  return readSessionRecords()
+    .filter((r) => !cwd || (r.cwd !== null && path.resolve(r.cwd) === cwd))
+    .filter((r) => !filter.level || r.level === filter.level)
+    .filter((r) => !filter.resultLevel || r.resultLevel === filter.resultLevel)
+    .filter((r) => !filter.threadId || r.threadId === filter.threadId)
+    .filter((r) => since === undefined || Date.parse(r.startedAt) >= since)
+    .filter((r) => until === undefined || Date.parse(r.startedAt) < until)
+    .reverse()
+    .slice(0, filter.limit ?? DEFAULT_LIST_LIMIT);
+}
+
+/**
+ * Records for a session id, or every session of a thread id (oldest first),
+ * so the full history of a thread across run/reply can be inspected.
+ */
+export function getSessionRecords(id: string): SessionRecord[] {
+  return readSessionRecords().filter((r) => r.sessionId === id || r.threadId === id);
+}
+
+/** Usage over every recorded session of a thread, across run and reply. */
+/** cwd of the latest recorded session of a thread that had one. */
+export function findThreadWorkingDirectory(threadId: string): string | undefined {
+  return readSessionRecords()
+    .filter((r) => r.threadId === threadId && r.cwd)
+    .pop()?.cwd ?? undefined;
+}
+
+export function sumThreadUsage(threadId: string): Usage {
+  return sumUsage(readSessionRecords().filter((r) => r.threadId === threadId).map((r) => r.usage));
+}
+
+/** Compact view of a record for listings: no item bodies. */
+export function summarizeSessionRecord(record: SessionRecord) {
+  const itemCounts: Record<string, number> = {};
+  for (const item of record.items) {
+    itemCounts[item.type] = (itemCounts[item.type] ?? 0) + 1;
+  }
+  return {
+    sessionId: record.sessionId,
+    threadId: record.threadId,
+    mode: record.mode,
+    level: record.level,
+    resultLevel: record.resultLevel,
+    prompt: record.prompt.length > 200 ? `${record.prompt.slice(0, 200)}...` : record.prompt,
+    cwd: record.cwd,
+    startedAt: record.startedAt,
+    finishedAt: record.finishedAt,
+    itemCounts,
+    usage: record.usage,
+    error: record.error,
+  };
+}
@@ -0,0 +1,50 @@
+import { AjvJsonSchemaValidator } from "@modelcontextprotocol/sdk/validation/ajv";
+import type { JsonSchemaType } from "@modelcontextprotocol/sdk/validation";
+
+// ============ Structured Output ============
+
+export const DEFAULT_OUTPUT_SCHEMA_RETRIES = 2;
+
+const validator = new AjvJsonSchemaValidator();
+
+export type OutputValidation = { valid: true; data: unknown } | { valid: false; error: string };
+
+/** Compile `schema` up front so a broken schema fails the call before Codex runs. */
+export function compileOutputSchema(schema: unknown): (text: string) => OutputValidation {
+  if (typeof schema !== "object" || schema === null || Array.isArray(schema)) {
+    throw new Error("outputSchema must be a JSON Schema object");
+  }
+  let validate: ReturnType<typeof validator.getValidator>;
+  try {
+    validate = validator.getValidator(schema as JsonSchemaType);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid outputSchema: ${errorMessage}`);
+  }
+
+  return (text) => {
+    let data: unknown;
+    try {
+      data = JSON.parse(stripCodeFence(text));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { valid: false, error: `final message is not valid JSON (${errorMessage})` };
+    }
+    const result = validate(data);
+    return result.valid ? { valid: true, data } : { valid: false, error: result.errorMessage };
+  };
+}
+
+/** Models sometimes wrap JSON in a ```json fence even when asked not to. */
+function stripCodeFence(text: string): string {
+  const match = text.trim().match(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/);
+  return match ? match[1] : text;
+}
+
+/** Prompt asking the thread to answer again, conforming to the schema. */
+export function buildSchemaRetryPrompt(error: string, schema: unknown): string {
+  return `Your final message did not match the required output schema: ${error}
+
+Reply again with only a JSON value that conforms to this JSON Schema, with no surrounding text:
+${JSON.stringify(schema, null, 2)}`;
+}
@@ -0,0 +1,47 @@
+import type { Usage } from "@openai/codex-sdk";
+
+// ============ Usage Ledger ============
+
+/** Usage reported by one completed turn. */
+export interface TurnUsage extends Usage {
+  /** `turn` is the prompt itself; `recovery`, `auto-fix` and `schema-retry` are turns the server sent. */
+  kind: "turn" | "recovery" | "auto-fix" | "schema-retry";
+  threadId: string | null;
+}
+
+export interface TokenBudget {
+  maxInputTokens?: number;
+  maxOutputTokens?: number;
+}
+
+export function emptyUsage(): Usage {
+  return { input_tokens: 0, cached_input_tokens: 0, output_tokens: 0 };
+}
+
+/** Add usage to a total. Missing fields count as 0, so records written before cached tokens were tracked still add up. */
+export function addUsage(total: Usage, usage: Partial<Usage> | null | undefined): Usage {
+  return {
+    input_tokens: total.input_tokens + (usage?.input_tokens ?? 0),
+    cached_input_tokens: total.cached_input_tokens + (usage?.cached_input_tokens ?? 0),
+    output_tokens: total.output_tokens + (usage?.output_tokens ?? 0),
+  };
+}
+
+export function sumUsage(usages: Array<Partial<Usage> | null | undefined>): Usage {
+  return usages.reduce<Usage>((total, usage) => addUsage(total, usage), emptyUsage());
+}
+
+/** Why `total` is over `budget`, or undefined while within it. */
+export function checkTokenBudget(total: Usage, budget: TokenBudget): string | undefined {
+  if (budget.maxInputTokens !== undefined && total.input_tokens > budget.maxInputTokens) {
+    return `input tokens ${total.input_tokens} exceeded maxInputTokens ${budget.maxInputTokens}`;
+  }
+  if (budget.maxOutputTokens !== undefined && total.output_tokens > budget.maxOutputTokens) {
+    return `output tokens ${total.output_tokens} exceeded maxOutputTokens ${budget.maxOutputTokens}`;
+  }
+  return undefined;
+}
+
+export function formatUsage(usage: Usage): string {
+  return `${usage.input_tokens} in (${usage.cached_input_tokens} cached) / ${usage.output_tokens} out`;
+}
@@ -0,0 +1,111 @@
+import { spawn } from "child_process";
+
+// ============ Acceptance Checks ============
+
+export const DEFAULT_VERIFY_TIMEOUT_MINUTES = 10;
+const OUTPUT_TAIL_CHARS = 4000;
+
+export interface VerifyResult {
+  command: string;
+  passed: boolean;
+  exitCode: number | null;
+  timedOut: boolean;
+  durationMs: number;
+  /** Last few KB of combined stdout/stderr. */
+  outputTail: string;
+}
+
+export interface VerificationReport {
+  passed: boolean;
+  results: VerifyResult[];
+}
+
+function tail(text: string): string {
+  return text.length > OUTPUT_TAIL_CHARS
+    ? `...[truncated]\n${text.slice(-OUTPUT_TAIL_CHARS)}`
+    : text;
+}
+
+/**
+ * Run one shell command in `cwd`, killing it after `timeoutMs`.
+ * Never rejects: spawn errors are reported as a failed result.
+ */
+function runCommand(command: string, cwd: string | undefined, timeoutMs: number): Promise<VerifyResult> {
+  const startedAt = Date.now();
+  return new Promise((resolve) => {
+    let output = "";
+    let timedOut = false;
+    let settled = false;
+
+    // Own process group on POSIX so a timeout kills the whole command tree, not just the shell
+    const child = spawn(command, { cwd, shell: true, detached: process.platform !== "win32" });
+    const append = (chunk: Buffer) => {
+      output = (output + chunk.toString("utf8")).slice(-OUTPUT_TAIL_CHARS * 2);
+    };
+    child.stdout?.on("data", append);
+    child.stderr?.on("data", append);
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        if (process.platform !== "win32" && child.pid) {
+          process.kill(-child.pid, "SIGKILL");
+        } else {
+          child.kill("SIGKILL");
+        }
+      } catch {
+        // Already exited
+      }
+    }, timeoutMs);
+
+    const finish = (exitCode: number | null, extra = "") => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      resolve({
+        command,
+        passed: exitCode === 0 && !timedOut,
+        exitCode,
+        timedOut,
+        durationMs: Date.now() - startedAt,
+        outputTail: tail(output + extra),
+      });
+    };
+
+    child.once("error", (error) => finish(null, `\n${error.message}`));
+    child.once("close", (code) => finish(code));
+  });
+}
+
+/**
+ * Run verification commands sequentially. Every command runs even if an
+ * earlier one fails, so the report shows the full picture.
+ */
+export async function runVerification(
+  commands: string[],
+  cwd: string | undefined,
+  timeoutMinutes: number = DEFAULT_VERIFY_TIMEOUT_MINUTES
+): Promise<VerificationReport> {
+  const results: VerifyResult[] = [];
+  for (const command of commands) {
+    results.push(await runCommand(command, cwd, timeoutMinutes * 60 * 1000));
+  }
+  return { passed: results.every((r) => r.passed), results };
+}
+
+/** Prompt sent back to the thread when verification fails and auto-fix is enabled. */
+export function buildFixPrompt(report: VerificationReport): string {
+  const failures = report.results
+    .filter((r) => !r.passed)
+    .map((r) => {
+      const status = r.timedOut ? "timed out" : `exit ${r.exitCode ?? "?"}`;
+      return `$ ${r.command} (${status})\n\`\`\`\n${r.outputTail.trim()}\n\`\`\``;
+    })
+    .join("\n\n");
+
+  return `The following verification commands failed after your changes:
+
+${failures}
+
+Fix the underlying problems so these commands pass. Do not weaken or skip the checks.`;
+}
@@ -0,0 +1,146 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+// ============ Git Worktree Isolation ============
+
+const execFileAsync = promisify(execFile);
+
+const WORKTREE_ROOT = path.join(os.homedir(), ".subcodex", "worktrees");
+const REGISTRY_PATH = path.join(WORKTREE_ROOT, "registry.json");
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+export type ApplyStrategy = "merge" | "cherry-pick";
+
+export interface WorktreeRecord {
+  id: string;
+  /** Linked once the Codex thread has started. */
+  threadId: string | null;
+  /** Top level of the repository the worktree was created from. */
+  repoRoot: string;
+  /** Top level of the worktree checkout. */
+  path: string;
+  /** Directory Codex runs in (same subdirectory of the worktree as the original cwd). */
+  workingDirectory: string;
+  branch: string;
+  baseCommit: string;
+  createdAt: string;
+}
+
+export async function git(cwd: string, args: string[], env?: NodeJS.ProcessEnv): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync("git", args, { cwd, env, maxBuffer: GIT_MAX_BUFFER });
+    return stdout;
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`git ${args[0]} failed: ${stderr || message}`);
+  }
+}
+
+function readRegistry(): WorktreeRecord[] {
+  if (!fs.existsSync(REGISTRY_PATH)) return [];
+  try {
+    return JSON.parse(fs.readFileSync(REGISTRY_PATH, "utf8")) as WorktreeRecord[];
+  } catch {
+    return [];
+  }
+}
+
+function writeRegistry(records: WorktreeRecord[]) {
+  fs.mkdirSync(WORKTREE_ROOT, { recursive: true });
+  fs.writeFileSync(REGISTRY_PATH, JSON.stringify(records, null, 2));
+}
+
+/**
+ * Create a detached working copy of `cwd`'s repository on a new branch at HEAD.
+ * Codex works there instead of the caller's checkout.
+ */
+export async function createWorktree(cwd: string, id: string): Promise<WorktreeRecord> {
+  const repoRoot = (await git(cwd, ["rev-parse", "--show-toplevel"])).trim();
+  const baseCommit = (await git(repoRoot, ["rev-parse", "HEAD"])).trim();
+  const branch = `subcodex/${id}`;
+  const worktreePath = path.join(WORKTREE_ROOT, id);
+
+  fs.mkdirSync(WORKTREE_ROOT, { recursive: true });
+  await git(repoRoot, ["worktree", "add", "-b", branch, worktreePath, baseCommit]);
+
+  const relative = path.relative(repoRoot, path.resolve(cwd));
+  const record: WorktreeRecord = {
+    id,
+    threadId: null,
+    repoRoot,
+    path: worktreePath,
+    workingDirectory: path.join(worktreePath, relative),
+    branch,
+    baseCommit,
+    createdAt: new Date().toISOString(),
+  };
+  writeRegistry([...readRegistry(), record]);
+  return record;
+}
+
+export function linkWorktreeThread(id: string, threadId: string) {
+  writeRegistry(readRegistry().map((r) => (r.id === id ? { ...r, threadId } : r)));
+}
+
+export function findWorktreeByThread(threadId: string): WorktreeRecord | undefined {
+  return readRegistry().find((r) => r.threadId === threadId);
+}
+
+/**
+ * Unified diff of everything in the worktree (committed, staged, unstaged
+ * and untracked) against the commit it was created from.
+ */
+export async function diffWorktree(record: WorktreeRecord): Promise<{ stat: string; diff: string }> {
+  await git(record.path, ["add", "-A"]);
+  const stat = await git(record.path, ["diff", "--cached", "--stat", record.baseCommit]);
+  const diff = await git(record.path, ["diff", "--cached", record.baseCommit]);
+  return { stat: stat.trim(), diff };
+}
+
+/**
+ * Commit any pending worktree changes on its branch and bring them into the
+ * original checkout. Conflicts abort the operation and leave both sides untouched.
+ */
+export async function applyWorktree(
+  record: WorktreeRecord,
+  strategy: ApplyStrategy,
+  message: string
+): Promise<{ commits: string[] }> {
+  await git(record.path, ["add", "-A"]);
+  const pending = (await git(record.path, ["status", "--porcelain"])).trim();
+  if (pending) {
+    await git(record.path, ["commit", "-m", message]);
+  }
+
+  const log = (await git(record.path, ["log", "--format=%H", `${record.baseCommit}..HEAD`])).trim();
+  const commits = log ? log.split("\n") : [];
+  if (commits.length === 0) {
+    return { commits };
+  }
+
+  try {
+    if (strategy === "merge") {
+      await git(record.repoRoot, ["merge", "--no-ff", "--no-edit", record.branch]);
+    } else {
+      await git(record.repoRoot, ["cherry-pick", `${record.baseCommit}..${record.branch}`]);
+    }
+  } catch (error) {
+    const abort = strategy === "merge" ? ["merge", "--abort"] : ["cherry-pick", "--abort"];
+    await git(record.repoRoot, abort).catch(() => {});
+    throw error;
+  }
+
+  return { commits };
+}
+
+/** Remove the worktree and its branch, and forget the record. */
+export async function discardWorktree(record: WorktreeRecord) {
+  await git(record.repoRoot, ["worktree", "remove", "--force", record.path]).catch(() => {});
+  await git(record.repoRoot, ["worktree", "prune"]).catch(() => {});
+  await git(record.repoRoot, ["branch", "-D", record.branch]).catch(() => {});
+  writeRegistry(readRegistry().filter((r) => r.id !== record.id));
+}
@@ -0,0 +1,58 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { describe, expect, it } from "vitest";
+import { MAX_FILE_BYTES, buildTurnInput, inputText, resolveAttachments } from "../src/attachments.js";
+
+function makeProject(): string {
+  const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "subcodex-attach-"));
+  fs.mkdirSync(path.join(cwd, "src", "ui"), { recursive: true });
+  fs.mkdirSync(path.join(cwd, "node_modules", "dep"), { recursive: true });
+  fs.writeFileSync(path.join(cwd, "src", "ui", "button.tsx"), "export const Button = () => null;\n");
+  fs.writeFileSync(path.join(cwd, "src", "ui", "menu.tsx"), "const code = \"```\";");
+  fs.writeFileSync(path.join(cwd, "node_modules", "dep", "index.tsx"), "ignored");
+  fs.writeFileSync(path.join(cwd, "bug.png"), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0]));
+  return cwd;
+}
+
+describe("resolveAttachments", () => {
+  it("expands globs, skips node_modules and resolves images", () => {
+    const cwd = makeProject();
+    const attachments = resolveAttachments({ images: ["bug.png"], files: ["src/**/*.tsx", "src/ui/button.tsx"] }, cwd);
+
+    expect(attachments.images).toEqual([{ path: path.join(cwd, "bug.png"), bytes: 5 }]);
+    expect(attachments.files.map((f) => f.path)).toEqual(["src/ui/button.tsx", "src/ui/menu.tsx"]);
+  });
+
+  it("rejects missing paths, empty globs, binary and oversized files", () => {
+    const cwd = makeProject();
+    fs.writeFileSync(path.join(cwd, "big.txt"), "x".repeat(MAX_FILE_BYTES + 1));
+
+    expect(() => resolveAttachments({ images: ["missing.png"] }, cwd)).toThrow("Image not found: missing.png");
+    expect(() => resolveAttachments({ images: ["src/ui/menu.tsx"] }, cwd)).toThrow("Unsupported image type");
+    expect(() => resolveAttachments({ files: ["nope.ts"] }, cwd)).toThrow("File not found: nope.ts");
+    expect(() => resolveAttachments({ files: ["**/*.vue"] }, cwd)).toThrow("No files match: **/*.vue");
+    expect(() => resolveAttachments({ files: ["bug.png"] }, cwd)).toThrow("Not a text file: bug.png");
+    expect(() => resolveAttachments({ files: ["big.txt"] }, cwd)).toThrow(/File too large to inline: big\.txt/);
+  });
+});
+
+describe("buildTurnInput", () => {
+  it("stays a plain string without images and inlines files in fences", () => {
+    const cwd = makeProject();
+    const input = buildTurnInput("Fix the menu", resolveAttachments({ files: ["src/ui/menu.tsx"] }, cwd));
+
+    expect(input).toBe("Fix the menu\n\n## Attached Files\n\n### src/ui/menu.tsx\n````\nconst code = \"```\";\n````");
+  });
+
+  it("adds images as local_image parts after the text", () => {
+    const cwd = makeProject();
+    const input = buildTurnInput("Match the screenshot", resolveAttachments({ images: ["bug.png"] }, cwd));
+
+    expect(input).toEqual([
+      { type: "text", text: "Match the screenshot" },
+      { type: "local_image", path: path.join(cwd, "bug.png") },
+    ]);
+    expect(inputText(input)).toBe("Match the screenshot");
+  });
+});
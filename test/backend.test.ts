@@ -0,0 +1,68 @@
+import type { ThreadEvent } from "@openai/codex-sdk";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { beforeEach, describe, expect, it } from "vitest";
+import { createBackend, resetFakeBackend } from "../src/backend.js";
+import { event, successfulTurn, useFakeScript } from "./helpers.js";
+
+async function collect(events: AsyncIterable<ThreadEvent>): Promise<ThreadEvent[]> {
+  const seen: ThreadEvent[] = [];
+  for await (const e of events) seen.push(e);
+  return seen;
+}
+
+beforeEach(() => {
+  resetFakeBackend();
+});
+
+describe("fake backend", () => {
+  it("replays scripted turns in order across threads", async () => {
+    useFakeScript({ turns: [successfulTurn("t-1", "first"), [event({ type: "turn.started" })]] });
+
+    const thread = createBackend().startThread();
+    const first = await collect((await thread.runStreamed("one")).events);
+    expect(first.map((e) => e.type)).toEqual(["thread.started", "turn.started", "item.completed", "turn.completed"]);
+    expect(thread.id).toBe("t-1");
+
+    const resumed = createBackend().resumeThread("t-1");
+    const second = await collect((await resumed.runStreamed("two")).events);
+    expect(second.map((e) => e.type)).toEqual(["turn.started"]);
+  });
+
+  it("replays recorded JSONL events", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "subcodex-recording-"));
+    const recorded: ThreadEvent[] = [
+      { type: "thread.started", thread_id: "rec" },
+      { type: "turn.completed", usage: { input_tokens: 1, cached_input_tokens: 0, output_tokens: 1 } },
+    ];
+    fs.writeFileSync(path.join(dir, "turn.jsonl"), recorded.map((e) => JSON.stringify(e)).join("\n"));
+    const script = path.join(dir, "script.json");
+    fs.writeFileSync(script, JSON.stringify({ turns: [{ recording: "turn.jsonl", delayMs: 1 }] }));
+    process.env.SUBCODEX_BACKEND = "fake";
+    process.env.SUBCODEX_FAKE_SCRIPT = script;
+
+    const { events } = await createBackend().startThread().runStreamed("go");
+    expect(await collect(events)).toEqual(recorded);
+  });
+
+  it("throws once the script is exhausted", async () => {
+    useFakeScript({ turns: [] });
+    const { events } = await createBackend().startThread().runStreamed("go");
+    await expect(collect(events)).rejects.toThrow("script exhausted");
+  });
+
+  it("aborts a stalled turn when its signal fires", async () => {
+    useFakeScript({ turns: [[{ stall: true }]] });
+    const controller = new AbortController();
+    const { events } = await createBackend().startThread().runStreamed("go", { signal: controller.signal });
+
+    setTimeout(() => controller.abort(new Error("stop")), 10);
+    await expect(collect(events)).rejects.toThrow("stop");
+  });
+
+  it("rejects an unknown backend name", () => {
+    process.env.SUBCODEX_BACKEND = "nope";
+    expect(() => createBackend()).toThrow("Unknown SUBCODEX_BACKEND");
+  });
+});
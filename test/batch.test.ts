@@ -0,0 +1,81 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { beforeEach, describe, expect, it } from "vitest";
+import { getFakeInputs, resetFakeBackend } from "../src/backend.js";
+import { executeBatch, runBatch } from "../src/batch.js";
+import { completed, event, message, turnCompleted, useFakeScript } from "./helpers.js";
+
+beforeEach(() => {
+  resetFakeBackend();
+});
+
+describe("runBatch", () => {
+  it("keeps at most `limit` tasks in flight and turns a thrown error into that task's result", async () => {
+    let running = 0;
+    let peak = 0;
+    const tasks = [40, 10, 30, 10, 20].map((delayMs) => ({ prompt: `wait ${delayMs}`, delayMs }));
+
+    const outcomes = await runBatch(
+      tasks,
+      2,
+      async (task, index) => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise((resolve) => setTimeout(resolve, task.delayMs));
+        running--;
+        if (index === 3) throw new Error("task 3 broke");
+        return `done ${index}`;
+      },
+      (error) => `failed: ${(error as Error).message}`
+    );
+
+    expect(peak).toBe(2);
+    expect(outcomes.map((outcome) => outcome.result)).toEqual([
+      "done 0",
+      "done 1",
+      "done 2",
+      "failed: task 3 broke",
+      "done 4",
+    ]);
+  });
+});
+
+describe("executeBatch", () => {
+  it("reports every task in order, including a failed one, and flags shared files", async () => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "subcodex-batch-test-"));
+    const editsShared = (threadId: string, delayMs: number) => [
+      event({ type: "thread.started", thread_id: threadId }),
+      event({ type: "turn.started" }),
+      completed(
+        { id: "f1", type: "file_change", changes: [{ kind: "update", path: "shared.ts" }], status: "completed" },
+        delayMs
+      ),
+      completed(message("Done")),
+      turnCompleted(),
+    ];
+    // Whichever task starts its turn first gets the slow one and finishes last
+    const scriptPath = useFakeScript({ turns: [editsShared("thread-slow", 150), editsShared("thread-fast", 0)] });
+
+    const report = await executeBatch(
+      [
+        { prompt: "first", cwd },
+        { prompt: "broken", cwd, outputSchema: "not a schema" },
+        { prompt: "third", cwd },
+      ],
+      3
+    );
+
+    const threadOfPrompt = new Map(
+      getFakeInputs(scriptPath).map((input, turn) => [input, ["thread-slow", "thread-fast"][turn]])
+    );
+    expect([...threadOfPrompt.keys()].sort()).toEqual(["first", "third"]);
+    expect(report.tasks.map(({ index, result }) => [index, "threadId" in result ? result.threadId : result.error])).toEqual([
+      [0, threadOfPrompt.get("first")],
+      [1, "outputSchema must be a JSON Schema object"],
+      [2, threadOfPrompt.get("third")],
+    ]);
+    expect(report.summary).toEqual({ total: 3, byResult: { PASS: 2, ERROR: 1 } });
+    expect(report.conflicts).toEqual([{ path: path.join(cwd, "shared.ts"), tasks: [0, 2] }]);
+  });
+});
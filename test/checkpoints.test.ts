@@ -0,0 +1,119 @@
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { beforeEach, describe, expect, it } from "vitest";
+import { resetFakeBackend } from "../src/backend.js";
+import { createCheckpoint, restoreCheckpoint, rollbackThread } from "../src/checkpoints.js";
+import { captureDiffBaseline } from "../src/diff.js";
+import { executeSession, type SessionSummary } from "../src/session.js";
+import { successfulTurn, useFakeScript } from "./helpers.js";
+
+function tempDir(gitRepo: boolean): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "subcodex-checkpoint-test-"));
+  if (gitRepo) execFileSync("git", ["init", "-q"], { cwd: dir });
+  fs.mkdirSync(path.join(dir, "src"));
+  fs.writeFileSync(path.join(dir, "src", "a.ts"), "one\n");
+  fs.writeFileSync(path.join(dir, "gone.txt"), "bye\n");
+  return dir;
+}
+
+beforeEach(() => {
+  resetFakeBackend();
+});
+
+describe.each([
+  ["a git repository", true],
+  ["a plain directory", false],
+])("restoreCheckpoint in %s", (_name, gitRepo) => {
+  it("restores changed and deleted files and removes new ones", async () => {
+    const dir = tempDir(gitRepo);
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "subcodex-checkpoints-"));
+    const checkpoint = await createCheckpoint((await captureDiffBaseline(dir, true))!, "abcd1234", root);
+    expect(checkpoint.kind).toBe(gitRepo ? "git" : "snapshot");
+
+    fs.writeFileSync(path.join(dir, "src", "a.ts"), "changed\n");
+    fs.writeFileSync(path.join(dir, "src", "new.ts"), "new\n");
+    fs.rmSync(path.join(dir, "gone.txt"));
+
+    const result = await restoreCheckpoint(checkpoint);
+
+    expect(result.restored.sort()).toEqual(["gone.txt", "src/a.ts"]);
+    expect(result.deleted).toEqual(["src/new.ts"]);
+    expect(fs.readFileSync(path.join(dir, "src", "a.ts"), "utf8")).toBe("one\n");
+    expect(fs.readFileSync(path.join(dir, "gone.txt"), "utf8")).toBe("bye\n");
+    expect(fs.existsSync(path.join(dir, "src", "new.ts"))).toBe(false);
+  });
+});
+
+describe("createCheckpoint", () => {
+  it("keeps git checkpoints alive with a ref and leaves the index alone", async () => {
+    const dir = tempDir(true);
+    const checkpoint = await createCheckpoint((await captureDiffBaseline(dir, false))!, "feed5678");
+
+    expect(checkpoint).toMatchObject({ kind: "git", ref: "refs/subcodex/checkpoints/feed5678" });
+    const refs = execFileSync("git", ["for-each-ref", "--format=%(refname)"], { cwd: dir, encoding: "utf8" });
+    expect(refs.trim()).toBe("refs/subcodex/checkpoints/feed5678");
+    expect(execFileSync("git", ["status", "--porcelain"], { cwd: dir, encoding: "utf8" })).toContain("?? gone.txt");
+  });
+
+  it("stops a snapshot at the file cap and then deletes nothing on restore", async () => {
+    const dir = tempDir(false);
+    fs.mkdirSync(path.join(dir, "many"));
+    for (let i = 0; i < 5000; i++) fs.writeFileSync(path.join(dir, "many", `${i}.txt`), "");
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "subcodex-checkpoints-"));
+    const checkpoint = await createCheckpoint((await captureDiffBaseline(dir, true))!, "cafe0001", root);
+
+    expect(checkpoint).toMatchObject({ kind: "snapshot", files: 5000, truncated: true });
+    fs.writeFileSync(path.join(dir, "new.txt"), "new\n");
+    const result = await restoreCheckpoint(checkpoint);
+    expect(result.deleted).toEqual([]);
+    expect(fs.existsSync(path.join(dir, "new.txt"))).toBe(true);
+  });
+
+  it("refuses to restore a git checkpoint whose ref was pruned", async () => {
+    const dir = tempDir(true);
+    const checkpoint = await createCheckpoint((await captureDiffBaseline(dir, false))!, "beef0001");
+    execFileSync("git", ["update-ref", "-d", "refs/subcodex/checkpoints/beef0001"], { cwd: dir });
+
+    await expect(restoreCheckpoint(checkpoint)).rejects.toThrow("Checkpoint ref was pruned");
+  });
+});
+
+describe("rollbackThread", () => {
+  it("restores the checkpoint taken before the given turn of a thread", async () => {
+    const cwd = tempDir(false);
+    const file = path.join(cwd, "src", "a.ts");
+    useFakeScript({ turns: [successfulTurn("thread-rollback"), successfulTurn("thread-rollback")] });
+
+    await executeSession({ prompt: "first", cwd, checkpoints: true });
+    fs.writeFileSync(file, "after first\n");
+    await executeSession({ prompt: "second", threadId: "thread-rollback", cwd, checkpoints: true });
+    fs.writeFileSync(file, "after second\n");
+
+    const second = await rollbackThread("thread-rollback");
+    expect(second).toMatchObject({ turn: 2, prompt: "second", restored: ["src/a.ts"], deleted: [] });
+    expect(fs.readFileSync(file, "utf8")).toBe("after first\n");
+
+    await rollbackThread("thread-rollback", 1);
+    expect(fs.readFileSync(file, "utf8")).toBe("one\n");
+
+    await expect(rollbackThread("thread-rollback", 3)).rejects.toThrow("has 2 turn(s)");
+    await expect(rollbackThread("thread-unknown")).rejects.toThrow("No recorded sessions");
+  });
+
+  it("checkpoints git repositories by default but copies a plain directory only when asked", async () => {
+    useFakeScript({
+      turns: [successfulTurn("thread-git-default"), successfulTurn("thread-plain-default"), successfulTurn("thread-git-off")],
+    });
+
+    const git = (await executeSession({ prompt: "work", cwd: tempDir(true) })) as SessionSummary;
+    const plain = (await executeSession({ prompt: "work", cwd: tempDir(false) })) as SessionSummary;
+    const off = (await executeSession({ prompt: "work", cwd: tempDir(true), checkpoints: false })) as SessionSummary;
+
+    expect(git.checkpoint).toMatchObject({ kind: "git" });
+    expect(plain.checkpoint).toBeUndefined();
+    expect(off.checkpoint).toBeUndefined();
+    await expect(rollbackThread("thread-plain-default")).rejects.toThrow("No checkpoint was taken before turn 1");
+  });
+});
@@ -0,0 +1,82 @@
+import type { ThreadItem } from "@openai/codex-sdk";
+import { describe, expect, it } from "vitest";
+import { classifyTurns, collectFailures, formatMarkdownReport } from "../src/classify.js";
+
+const reply: ThreadItem = { id: "m", type: "agent_message", text: "Done" };
+
+function fileChange(id: string, filePath: string, status: "completed" | "failed"): ThreadItem {
+  return { id, type: "file_change", changes: [{ kind: "update", path: filePath }], status };
+}
+
+describe("collectFailures", () => {
+  it("records failed commands with exit codes and output tails", () => {
+    const output = Array.from({ length: 30 }, (_, i) => `line ${i + 1}`).join("\n");
+    const failures = collectFailures(
+      [
+        { id: "c1", type: "command_execution", command: "pnpm test", aggregated_output: output, exit_code: 1, status: "failed" },
+        { id: "c2", type: "command_execution", command: "ls", aggregated_output: "a", exit_code: 0, status: "completed" },
+        fileChange("f1", "src/a.ts", "failed"),
+        { id: "e1", type: "error", message: "model overloaded" },
+      ],
+      [{ type: "turn.failed", message: "context window exceeded" }, { type: "error", message: "Reconnecting... 1/5" }]
+    );
+
+    expect(failures.turnFailures).toEqual(["context window exceeded"]);
+    expect(failures.streamErrors).toEqual(["Reconnecting... 1/5", "model overloaded"]);
+    expect(failures.failedFileChanges).toEqual(["update: src/a.ts"]);
+    expect(failures.failedCommands).toHaveLength(1);
+    expect(failures.failedCommands[0]).toMatchObject({ command: "pnpm test", exitCode: 1 });
+    expect(failures.failedCommands[0].outputTail.split("\n")).toEqual(
+      Array.from({ length: 20 }, (_, i) => `line ${i + 11}`)
+    );
+  });
+});
+
+describe("classifyTurns", () => {
+  const classify = (items: ThreadItem[], turnErrors: Parameters<typeof collectFailures>[1] = []) =>
+    classifyTurns(items, collectFailures(items, turnErrors));
+
+  it("passes a reply despite failed commands and recovered stream errors", () => {
+    const items: ThreadItem[] = [
+      { id: "c1", type: "command_execution", command: "ls", aggregated_output: "", exit_code: 127, status: "failed" },
+      reply,
+    ];
+    expect(classify(items, [{ type: "error", message: "Reconnecting... 1/5" }])).toEqual({ level: "PASS", reasons: [] });
+  });
+
+  it("is PARTIAL when some file changes failed and FAIL when all did", () => {
+    const partial = classify([fileChange("f1", "a.ts", "completed"), fileChange("f2", "b.ts", "failed"), reply]);
+    expect(partial).toEqual({ level: "PARTIAL", reasons: ["1 of 2 file changes failed (update: b.ts)"] });
+
+    expect(classify([fileChange("f1", "a.ts", "failed"), reply]).level).toBe("FAIL");
+  });
+
+  it("fails a failed turn even when Codex replied", () => {
+    const result = classify([fileChange("f1", "a.ts", "completed"), reply], [
+      { type: "turn.failed", message: "usage limit reached" },
+    ]);
+    expect(result).toEqual({ level: "FAIL", reasons: ["turn failed: usage limit reached"] });
+  });
+
+  it("fails a stream error with no final message", () => {
+    expect(classify([], [{ type: "error", message: "stream disconnected" }])).toEqual({
+      level: "FAIL",
+      reasons: ["no final message after error: stream disconnected"],
+    });
+  });
+});
+
+describe("formatMarkdownReport", () => {
+  it("lists reasons and failed commands with their output", () => {
+    const report = formatMarkdownReport("FAIL", ["turn failed: boom"], {
+      turnFailures: ["boom"],
+      streamErrors: [],
+      failedCommands: [{ command: "pnpm test", exitCode: 1, outputTail: "1 failed" }],
+      failedFileChanges: [],
+    });
+
+    expect(report).toContain("**Result:** FAIL");
+    expect(report).toContain("- turn failed: boom");
+    expect(report).toContain("- `pnpm test` (exit 1)\n\n```\n1 failed\n```");
+  });
+});
@@ -0,0 +1,98 @@
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { beforeEach, describe, expect, it } from "vitest";
+import { getFakeInputs, resetFakeBackend } from "../src/backend.js";
+import { estimateTokens, packContext } from "../src/context.js";
+import { executeSession, type SessionSummary } from "../src/session.js";
+import { successfulTurn, useFakeScript } from "./helpers.js";
+
+function tempDir(gitRepo: boolean): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "subcodex-context-test-"));
+  fs.writeFileSync(path.join(dir, "AGENTS.md"), "Use pnpm.\n");
+  fs.mkdirSync(path.join(dir, "src"));
+  fs.writeFileSync(path.join(dir, "src", "a.ts"), "export const a = 1;\n");
+  if (gitRepo) {
+    const git = (...args: string[]) => execFileSync("git", args, { cwd: dir });
+    git("init", "-q");
+    git("add", ".");
+    git("-c", "user.name=test", "-c", "user.email=test@example.com", "commit", "-q", "-m", "init");
+    fs.writeFileSync(path.join(dir, "src", "a.ts"), "export const a = 2;\n");
+  }
+  return dir;
+}
+
+beforeEach(() => {
+  resetFakeBackend();
+});
+
+describe("packContext", () => {
+  it("packs instructions, git status, files and the diff in order", async () => {
+    const dir = tempDir(true);
+
+    const { text, report } = await packContext({ files: ["src/*.ts"] }, dir);
+
+    expect(report.included.map((entry) => [entry.kind, entry.source])).toEqual([
+      ["instructions", "AGENTS.md"],
+      ["git-status", "git status --short --branch"],
+      ["file", "src/a.ts"],
+      ["git-diff", "git diff HEAD"],
+    ]);
+    expect(report.included.every((entry) => !entry.truncated)).toBe(true);
+    expect(report.tokens).toBe(report.included.reduce((total, entry) => total + entry.tokens, 0));
+    expect(text).toMatch(/^## Context\n/);
+    expect(text).toContain("### Project Instructions: AGENTS.md\n```\nUse pnpm.\n```");
+    expect(text).toContain(" M src/a.ts");
+    expect(text).toContain("### File: src/a.ts");
+    expect(text).toContain("```diff\ndiff --git a/src/a.ts b/src/a.ts");
+    expect(text).toContain("+export const a = 2;");
+  });
+
+  it("cuts the section that does not fit and leaves out the rest", async () => {
+    const dir = tempDir(false);
+    fs.writeFileSync(path.join(dir, "big.txt"), Array.from({ length: 400 }, (_, i) => `line ${i}`).join("\n"));
+
+    const { text, report } = await packContext({ files: ["big.txt", "src/a.ts"], maxTokens: 200 }, dir);
+
+    expect(report.included).toHaveLength(2);
+    expect(report.included[1]).toMatchObject({ kind: "file", source: "big.txt", truncated: true });
+    expect(report.included[1].originalTokens).toBeGreaterThan(200);
+    expect(report.tokens).toBeLessThanOrEqual(200);
+    expect(report.omitted).toEqual([
+      { kind: "git-status", source: "git status --short --branch", reason: "not a git repository" },
+      { kind: "git-diff", source: "git diff HEAD", reason: "not a git repository" },
+      { kind: "file", source: "src/a.ts", reason: "token budget exhausted" },
+    ]);
+    expect(text).toContain("line 0\n");
+    expect(text).not.toContain("line 399");
+    expect(text).toContain("_Truncated to fit the context budget");
+    expect(estimateTokens(text)).toBeLessThan(240);
+  });
+
+  it("skips what was not asked for and rejects missing files", async () => {
+    const dir = tempDir(true);
+
+    const { text, report } = await packContext({ instructions: false, gitDiff: false, gitStatus: false }, dir);
+    expect(text).toBe("");
+    expect(report).toMatchObject({ tokens: 0, included: [], omitted: [] });
+
+    await expect(packContext({ files: ["missing.ts"] }, dir)).rejects.toThrow("File not found: missing.ts");
+  });
+});
+
+describe("executeSession with context", () => {
+  it("appends the packed context to the prompt and reports it", async () => {
+    const dir = tempDir(true);
+    const scriptPath = useFakeScript({ turns: [successfulTurn("thread-context")] });
+
+    const response = await executeSession({ prompt: "fix it", cwd: dir, context: { gitStatus: false } });
+    const summary = response as SessionSummary;
+
+    const [input] = getFakeInputs(scriptPath);
+    expect(input).toMatch(/^fix it\n\n## Context\n/);
+    expect(input).toContain("### Project Instructions: AGENTS.md");
+    expect(input).toContain("### Git Diff");
+    expect(summary.context?.included.map((entry) => entry.kind)).toEqual(["instructions", "git-diff"]);
+  });
+});
@@ -0,0 +1,81 @@
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { describe, expect, it } from "vitest";
+import { capDiffs, captureDiffBaseline, changedPaths, diffAgainstBaseline } from "../src/diff.js";
+
+function tempDir(gitRepo: boolean): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "subcodex-diff-test-"));
+  if (gitRepo) execFileSync("git", ["init", "-q"], { cwd: dir });
+  fs.mkdirSync(path.join(dir, "src"));
+  fs.writeFileSync(path.join(dir, "src", "a.ts"), "one\ntwo\nthree\n");
+  fs.writeFileSync(path.join(dir, "gone.txt"), "bye\n");
+  return dir;
+}
+
+function changeFiles(dir: string) {
+  fs.writeFileSync(path.join(dir, "src", "a.ts"), "one\nTWO\nthree\nfour\n");
+  fs.writeFileSync(path.join(dir, "new.txt"), "hello\n");
+  fs.rmSync(path.join(dir, "gone.txt"));
+}
+
+describe.each([
+  ["a git repository", true],
+  ["a plain directory", false],
+])("diffAgainstBaseline in %s", (_name, gitRepo) => {
+  it("diffs modified, added and deleted files against the state before the session", async () => {
+    const dir = tempDir(gitRepo);
+    const baseline = await captureDiffBaseline(dir, true);
+    expect(baseline?.kind).toBe(gitRepo ? "git" : "snapshot");
+    changeFiles(dir);
+
+    const diffs = await diffAgainstBaseline(baseline!, ["src/a.ts", "new.txt", "gone.txt"]);
+
+    expect(diffs.map(({ path, added, removed }) => ({ path, added, removed }))).toEqual([
+      { path: "src/a.ts", added: 2, removed: 1 },
+      { path: "new.txt", added: 1, removed: 0 },
+      { path: "gone.txt", added: 0, removed: 1 },
+    ]);
+    expect(diffs[0].diff).toBe(
+      "diff --git a/src/a.ts b/src/a.ts\n--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1,3 +1,4 @@\n one\n-two\n+TWO\n three\n+four"
+    );
+    expect(diffs[1].diff).toContain("new file mode 100644\n--- /dev/null\n+++ b/new.txt");
+    expect(diffs[2].diff).toContain("deleted file mode 100644\n--- a/gone.txt\n+++ /dev/null");
+  });
+});
+
+describe("captureDiffBaseline", () => {
+  it("skips the snapshot of a plain directory unless asked", async () => {
+    expect(await captureDiffBaseline(tempDir(false), false)).toBeUndefined();
+  });
+});
+
+describe("changedPaths", () => {
+  it("lists completed file changes inside cwd once each", () => {
+    const cwd = path.resolve("/work/repo");
+    const paths = changedPaths(cwd, [
+      { id: "1", type: "file_change", changes: [{ kind: "update", path: path.join(cwd, "src/a.ts") }], status: "completed" },
+      { id: "2", type: "file_change", changes: [{ kind: "update", path: "src/a.ts" }, { kind: "add", path: "../outside.ts" }], status: "completed" },
+      { id: "3", type: "file_change", changes: [{ kind: "add", path: "failed.ts" }], status: "failed" },
+    ]);
+    expect(paths).toEqual(["src/a.ts"]);
+  });
+});
+
+describe("capDiffs", () => {
+  it("truncates the diff that crosses the cap and omits the rest", () => {
+    const capped = capDiffs(
+      [
+        { path: "a", diff: "12345" },
+        { path: "b", diff: "line1\nline2\nline3" },
+        { path: "c", diff: "x" },
+      ],
+      12
+    );
+
+    expect(capped[0]).toEqual({ path: "a", diff: "12345" });
+    expect(capped[1]).toEqual({ path: "b", diff: "line1\n[... diff truncated: 2 more lines ...]", truncated: true });
+    expect(capped[2]).toEqual({ path: "c", diff: "[... diff omitted: 12 byte cap reached ...]", truncated: true });
+  });
+});
@@ -0,0 +1,53 @@
+import type { ThreadEvent, ThreadItem } from "@openai/codex-sdk";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { BACKEND_ENV, FAKE_SCRIPT_ENV, type FakeScript, type FakeStep } from "../src/backend.js";
+
+/** Write a fake backend script to a fresh temp file and select it via env. */
+export function useFakeScript(script: FakeScript): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "subcodex-script-"));
+  const scriptPath = path.join(dir, "script.json");
+  fs.writeFileSync(scriptPath, JSON.stringify(script));
+  process.env[BACKEND_ENV] = "fake";
+  process.env[FAKE_SCRIPT_ENV] = scriptPath;
+  return scriptPath;
+}
+
+export function event(e: ThreadEvent, delayMs?: number): FakeStep {
+  return { event: e, delayMs };
+}
+
+export function completed(item: ThreadItem, delayMs?: number): FakeStep {
+  return event({ type: "item.completed", item }, delayMs);
+}
+
+export function turnCompleted(input_tokens = 100, output_tokens = 50): FakeStep {
+  return event({ type: "turn.completed", usage: { input_tokens, cached_input_tokens: 0, output_tokens } });
+}
+
+export function message(text: string, id = "msg"): ThreadItem {
+  return { id, type: "agent_message", text };
+}
+
+/** A complete, successful turn on `threadId` that ends with `text`. */
+export function successfulTurn(threadId: string, text = "Done"): FakeStep[] {
+  return [
+    event({ type: "thread.started", thread_id: threadId }),
+    event({ type: "turn.started" }),
+    completed(message(text)),
+    turnCompleted(),
+  ];
+}
+
+/** A turn that starts `threadId` and then goes silent. */
+export function stallingTurn(threadId: string): FakeStep[] {
+  return [
+    event({ type: "thread.started", thread_id: threadId }),
+    event({ type: "turn.started" }),
+    { stall: true },
+  ];
+}
+
+/** Stall timeout small enough for tests, expressed in minutes like the tool argument. */
+export const FAST_STALL_MINUTES = 0.1 / 60; // 100ms
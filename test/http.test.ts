@@ -0,0 +1,77 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import type * as http from "http";
+import { afterEach, describe, expect, it } from "vitest";
+import { parseTransportOptions, startHttpServer } from "../src/http.js";
+
+describe("parseTransportOptions", () => {
+  it("defaults to stdio", () => {
+    expect(parseTransportOptions([], {})).toEqual({ kind: "stdio" });
+  });
+
+  it("reads the port and host from flags or env, and the token from env only", () => {
+    expect(parseTransportOptions(["--http"], {})).toEqual({ kind: "http", port: 3939, host: "127.0.0.1" });
+    expect(parseTransportOptions(["--http", "8080", "--host", "0.0.0.0"], { SUBCODEX_HTTP_TOKEN: "s3cret" })).toEqual({
+      kind: "http",
+      port: 8080,
+      host: "0.0.0.0",
+      token: "s3cret",
+    });
+    expect(parseTransportOptions([], { SUBCODEX_HTTP_PORT: "9000" })).toMatchObject({ kind: "http", port: 9000 });
+    expect(() => parseTransportOptions(["--http", "99999"], {})).toThrow("Invalid HTTP port");
+  });
+
+  it("requires a token on a non-loopback host", () => {
+    expect(() => parseTransportOptions(["--http", "--host", "0.0.0.0"], {})).toThrow("without SUBCODEX_HTTP_TOKEN");
+    expect(() => parseTransportOptions(["--http"], { SUBCODEX_HTTP_HOST: "192.168.1.5", SUBCODEX_HTTP_TOKEN: "" })).toThrow(
+      "Refusing to serve HTTP on 192.168.1.5"
+    );
+    expect(parseTransportOptions(["--http", "--host", "localhost"], {})).toMatchObject({ host: "localhost", token: undefined });
+  });
+});
+
+describe("startHttpServer", () => {
+  let httpServer: http.Server | undefined;
+
+  afterEach(async () => {
+    await new Promise((resolve) => httpServer?.close(resolve) ?? resolve(undefined));
+    httpServer = undefined;
+  });
+
+  function createServer(): Server {
+    const server = new Server({ name: "test", version: "1.0.0" }, { capabilities: { tools: {} } });
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }));
+    return server;
+  }
+
+  async function connect(url: URL, token?: string): Promise<{ client: Client; transport: StreamableHTTPClientTransport }> {
+    const transport = new StreamableHTTPClientTransport(url, {
+      requestInit: token ? { headers: { Authorization: `Bearer ${token}` } } : undefined,
+    });
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(transport);
+    return { client, transport };
+  }
+
+  it("serves several client sessions and requires the bearer token", async () => {
+    httpServer = await startHttpServer({ port: 0, host: "127.0.0.1", token: "s3cret" }, createServer);
+    const address = httpServer.address();
+    const url = new URL(`http://127.0.0.1:${typeof address === "object" && address ? address.port : 0}/mcp`);
+
+    const first = await connect(url, "s3cret");
+    const second = await connect(url, "s3cret");
+    expect(first.transport.sessionId).toBeTruthy();
+    expect(second.transport.sessionId).not.toBe(first.transport.sessionId);
+    expect(await first.client.listTools()).toEqual({ tools: [] });
+    expect(await second.client.listTools()).toEqual({ tools: [] });
+
+    await expect(connect(url, "wrong")).rejects.toThrow();
+    const unauthorized = await fetch(url, { method: "POST", body: "{}" });
+    expect(unauthorized.status).toBe(401);
+
+    await first.client.close();
+    await second.client.close();
+  });
+});
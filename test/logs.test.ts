@@ -0,0 +1,98 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { describe, expect, it } from "vitest";
+import { applyLogRetention, findRolloutFile, forkRolloutFile, markLogActive, markLogInactive } from "../src/logs.js";
+
+/** Write a log file `ageMinutes` old with `size` bytes. */
+function writeLog(dir: string, name: string, ageMinutes: number, size = 10): string {
+  const filePath = path.join(dir, name);
+  fs.writeFileSync(filePath, "x".repeat(size));
+  const mtime = new Date(Date.now() - ageMinutes * 60 * 1000);
+  fs.utimesSync(filePath, mtime, mtime);
+  return filePath;
+}
+
+describe("applyLogRetention", () => {
+  it("removes logs past the age, count and size limits, oldest first", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "subcodex-logs-"));
+    writeLog(dir, "progress-L2-a-FAIL.log", 1, 400);
+    writeLog(dir, "events-L2-a-FAIL.jsonl", 2, 400);
+    writeLog(dir, "progress-L2-b-ERROR.log", 3, 400);
+    writeLog(dir, "progress-L2-c-TIMEOUT.log", 4);
+    writeLog(dir, "progress-L2-d-FAIL.log", 3 * 24 * 60);
+    writeLog(dir, "notes.txt", 3 * 24 * 60);
+
+    const byAge = applyLogRetention({ maxAgeDays: 2 }, dir);
+    expect(byAge.map((p) => path.basename(p))).toEqual(["progress-L2-d-FAIL.log"]);
+
+    const bySize = applyLogRetention({ maxTotalMB: 1000 / (1024 * 1024) }, dir);
+    expect(bySize.map((p) => path.basename(p))).toEqual(["progress-L2-b-ERROR.log", "progress-L2-c-TIMEOUT.log"]);
+
+    const byCount = applyLogRetention({ maxCount: 1 }, dir);
+    expect(byCount.map((p) => path.basename(p))).toEqual(["events-L2-a-FAIL.jsonl"]);
+    expect(fs.readdirSync(dir).sort()).toEqual(["notes.txt", "progress-L2-a-FAIL.log"]);
+  });
+
+  it("never removes the logs of a running session", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "subcodex-logs-"));
+    const running = writeLog(dir, "progress-L2-live.log", 5 * 24 * 60);
+    markLogActive(running);
+    try {
+      expect(applyLogRetention({ maxAgeDays: 1 }, dir)).toEqual([]);
+    } finally {
+      markLogInactive(running);
+    }
+    expect(applyLogRetention({ maxAgeDays: 1 }, dir)).toEqual([running]);
+  });
+});
+
+describe("findRolloutFile", () => {
+  it("finds the rollout file of a thread under CODEX_HOME", () => {
+    const codexHome = fs.mkdtempSync(path.join(os.tmpdir(), "subcodex-codex-home-"));
+    const dayDir = path.join(codexHome, "sessions", "2026", "10", "19");
+    fs.mkdirSync(dayDir, { recursive: true });
+    const rollout = path.join(dayDir, "rollout-2026-10-19T10-00-00-0199a1b2-c3d4.jsonl");
+    fs.writeFileSync(rollout, "");
+
+    const previous = process.env.CODEX_HOME;
+    process.env.CODEX_HOME = codexHome;
+    try {
+      expect(findRolloutFile("0199a1b2-c3d4")).toBe(rollout);
+      expect(findRolloutFile("unknown-thread")).toBeNull();
+    } finally {
+      if (previous === undefined) delete process.env.CODEX_HOME;
+      else process.env.CODEX_HOME = previous;
+    }
+  });
+});
+
+describe("forkRolloutFile", () => {
+  it("copies a thread's rollout under a new thread id", () => {
+    const codexHome = fs.mkdtempSync(path.join(os.tmpdir(), "subcodex-codex-home-"));
+    const dayDir = path.join(codexHome, "sessions", "2026", "10", "18");
+    fs.mkdirSync(dayDir, { recursive: true });
+    const meta = { timestamp: "2026-10-18T10:00:00Z", type: "session_meta", payload: { id: "thread-orig", cwd: "/repo" } };
+    const message = { timestamp: "2026-10-18T10:00:01Z", type: "response_item", payload: { text: "hi" } };
+    fs.writeFileSync(
+      path.join(dayDir, "rollout-2026-10-18T10-00-00-thread-orig.jsonl"),
+      `${JSON.stringify(meta)}\n${JSON.stringify(message)}\n`
+    );
+
+    const previous = process.env.CODEX_HOME;
+    process.env.CODEX_HOME = codexHome;
+    try {
+      const forkedId = forkRolloutFile("thread-orig");
+      const forked = findRolloutFile(forkedId);
+
+      expect(forkedId).not.toBe("thread-orig");
+      expect(forked).toMatch(new RegExp(`rollout-[0-9T-]+-${forkedId}\\.jsonl$`));
+      const lines = fs.readFileSync(forked!, "utf8").trim().split("\n").map((line) => JSON.parse(line));
+      expect(lines).toEqual([{ ...meta, payload: { id: forkedId, cwd: "/repo" } }, message]);
+      expect(() => forkRolloutFile("unknown-thread")).toThrow("No rollout file found for thread unknown-thread");
+    } finally {
+      if (previous === undefined) delete process.env.CODEX_HOME;
+      else process.env.CODEX_HOME = previous;
+    }
+  });
+});
@@ -0,0 +1,168 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { resetFakeBackend } from "../src/backend.js";
+import {
+  computeStats,
+  formatOtelSpans,
+  formatPrometheus,
+  parseWindowBound,
+  readSessionMetrics,
+  type SessionMetrics,
+} from "../src/metrics.js";
+import { executeSession } from "../src/session.js";
+import { FAST_STALL_MINUTES, completed, message, stallingTurn, turnCompleted, useFakeScript } from "./helpers.js";
+
+const NOW = Date.parse("2026-03-10T12:00:00Z");
+
+function metrics(overrides: Partial<SessionMetrics>): SessionMetrics {
+  return {
+    sessionId: "s1",
+    threadId: "t1",
+    mode: "run",
+    level: "L2",
+    resultLevel: "PASS",
+    startedAt: "2026-03-10T11:00:00.000Z",
+    finishedAt: "2026-03-10T11:01:00.000Z",
+    durationMs: 60000,
+    stalled: false,
+    recoveryAttempts: 0,
+    recovered: false,
+    usage: { input_tokens: 1000, cached_input_tokens: 200, output_tokens: 100 },
+    commands: 2,
+    failedCommands: 0,
+    fileChanges: 1,
+    turns: [],
+    ...overrides,
+  };
+}
+
+const SAMPLE = [
+  metrics({ sessionId: "a" }),
+  metrics({ sessionId: "b", resultLevel: "FAIL", durationMs: 120000, failedCommands: 1 }),
+  metrics({ sessionId: "c", stalled: true, recoveryAttempts: 1, recovered: true }),
+  metrics({ sessionId: "d", level: "L3", resultLevel: "TIMEOUT", stalled: true, recoveryAttempts: 2 }),
+  metrics({ sessionId: "old", startedAt: "2026-03-01T00:00:00.000Z" }),
+];
+
+beforeEach(() => {
+  resetFakeBackend();
+});
+
+describe("parseWindowBound", () => {
+  it("accepts ISO dates and durations back from now", () => {
+    expect(parseWindowBound("2026-03-10", "since", NOW)).toBe(Date.parse("2026-03-10"));
+    expect(parseWindowBound("24h", "since", NOW)).toBe(NOW - 24 * 60 * 60 * 1000);
+    expect(parseWindowBound("30m", "since", NOW)).toBe(NOW - 30 * 60 * 1000);
+    expect(() => parseWindowBound("yesterday", "since", NOW)).toThrow("Invalid since: yesterday");
+  });
+});
+
+describe("computeStats", () => {
+  it("aggregates rates overall and per level within the window", () => {
+    const stats = computeStats(SAMPLE, { since: "7d" }, NOW);
+
+    expect(stats).toMatchObject({
+      sessions: 4,
+      results: { PASS: 2, FAIL: 1, TIMEOUT: 1 },
+      passRate: 0.5,
+      stalls: 2,
+      stallRate: 0.5,
+      recoveryAttempts: 3,
+      recovered: 1,
+      recoverySuccessRate: 0.5,
+      avgDurationMs: 75000,
+      usage: { input_tokens: 4000, cached_input_tokens: 800, output_tokens: 400 },
+      avgUsage: { input_tokens: 1000, cached_input_tokens: 200, output_tokens: 100 },
+      commands: 8,
+      failedCommands: 1,
+    });
+    expect(Object.keys(stats.byLevel)).toEqual(["L2", "L3"]);
+    expect(stats.byLevel.L2).toMatchObject({ sessions: 3, passRate: 2 / 3, stalls: 1, recoverySuccessRate: 1 });
+    expect(stats.since).toBe("2026-03-03T12:00:00.000Z");
+  });
+
+  it("filters by level and result, and reports no rates without sessions", () => {
+    expect(computeStats(SAMPLE, { level: "L3" }, NOW).sessions).toBe(1);
+    expect(computeStats(SAMPLE, { resultLevel: "FAIL" }, NOW).sessions).toBe(1);
+    expect(computeStats(SAMPLE, { level: "L1" }, NOW)).toMatchObject({
+      sessions: 0,
+      passRate: null,
+      recoverySuccessRate: null,
+      avgDurationMs: null,
+      avgUsage: null,
+      byLevel: {},
+    });
+  });
+});
+
+describe("exports", () => {
+  it("formats Prometheus counters per level", () => {
+    const text = formatPrometheus(computeStats(SAMPLE, { since: "7d" }, NOW));
+
+    expect(text).toContain("# TYPE subcodex_sessions_total counter");
+    expect(text).toContain('subcodex_sessions_total{level="L2",result="PASS"} 2');
+    expect(text).toContain('subcodex_sessions_total{level="L3",result="TIMEOUT"} 1');
+    expect(text).toContain('subcodex_stalls_total{level="L2"} 1');
+    expect(text).toContain('subcodex_session_duration_seconds_sum{level="L2"} 240');
+    expect(text).toContain('subcodex_session_duration_seconds_count{level="L2"} 3');
+    expect(text).toContain('subcodex_tokens_total{level="L3",type="output"} 100');
+  });
+
+  it("builds one trace per session with a child span per turn", () => {
+    const turn = {
+      kind: "turn" as const,
+      startedAt: "2026-03-10T11:00:00.000Z",
+      finishedAt: "2026-03-10T11:00:30.000Z",
+      durationMs: 30000,
+      usage: { input_tokens: 600, cached_input_tokens: 0, output_tokens: 60 },
+      stalled: true,
+      recovered: true,
+      recoveryAttempts: 1,
+    };
+    const { resourceSpans } = formatOtelSpans([
+      metrics({ sessionId: "a", turns: [turn, { ...turn, kind: "auto-fix", stalled: false, recoveryAttempts: 0 }] }),
+      metrics({ sessionId: "b", resultLevel: "FAIL" }),
+    ]);
+    const spans = resourceSpans[0].scopeSpans[0].spans;
+
+    expect(spans).toHaveLength(4);
+    const [session, first, second, other] = spans;
+    expect(session.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(session.spanId).toMatch(/^[0-9a-f]{16}$/);
+    expect(session.startTimeUnixNano).toBe(`${Date.parse("2026-03-10T11:00:00.000Z")}000000`);
+    expect(session.status).toEqual({ code: 1 });
+    expect(session.attributes).toContainEqual({ key: "subcodex.result_level", value: { stringValue: "PASS" } });
+    expect(first).toMatchObject({ traceId: session.traceId, parentSpanId: session.spanId, name: "subcodex turn turn" });
+    expect(second.name).toBe("subcodex turn auto-fix");
+    expect(second.spanId).not.toBe(first.spanId);
+    expect(other.traceId).not.toBe(session.traceId);
+    expect(other.status).toMatchObject({ code: 2 });
+    expect(formatOtelSpans([SAMPLE[0]]).resourceSpans[0].scopeSpans[0].spans[0].traceId)
+      .toBe(formatOtelSpans([SAMPLE[0]]).resourceSpans[0].scopeSpans[0].spans[0].traceId);
+  });
+});
+
+describe("metrics store", () => {
+  it("records a session's result, recovery and turns", async () => {
+    useFakeScript({
+      turns: [
+        stallingTurn("thread-metrics"),
+        [completed(message("Recovered")), turnCompleted(500, 40)],
+      ],
+    });
+
+    const response = await executeSession({ prompt: "work", stallTimeoutMinutes: FAST_STALL_MINUTES, maxRecoveryAttempts: 1 });
+    const recorded = readSessionMetrics().find((m) => m.sessionId === response.sessionId);
+
+    expect(recorded).toMatchObject({
+      threadId: "thread-metrics",
+      resultLevel: "PASS",
+      stalled: true,
+      recoveryAttempts: 1,
+      recovered: true,
+      usage: { input_tokens: 500, output_tokens: 40 },
+      commands: 0,
+    });
+    expect(recorded?.turns).toHaveLength(1);
+    expect(recorded?.turns[0]).toMatchObject({ kind: "turn", stalled: true, recovered: true, recoveryAttempts: 1 });
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { buildContractPrompt, listContractPrompts } from "../src/prompts.js";
+
+describe("contract prompts", () => {
+  it("offers one contract per execution level", () => {
+    expect(listContractPrompts().map((p) => p.name)).toEqual([
+      "codex-contract-L1",
+      "codex-contract-L2",
+      "codex-contract-L3",
+      "codex-contract-L4",
+    ]);
+  });
+
+  it("fills the template with the given arguments", () => {
+    const text = buildContractPrompt("codex-contract-L2", {
+      task: "Add pagination to GET /users",
+      scope: "src/api/users.ts, test/api/users.test.ts",
+      acceptance: "pnpm test",
+    });
+
+    expect(text).toContain("# Codex Contract (L2 Builder)");
+    expect(text).toContain("## Task\nAdd pagination to GET /users");
+    expect(text).toContain("## Scope\nsrc/api/users.ts, test/api/users.test.ts");
+    expect(text).toContain("## Acceptance\npnpm test");
+    expect(text).not.toContain("## Context");
+  });
+
+  it("rejects unknown prompts and a missing task", () => {
+    expect(() => buildContractPrompt("codex-contract-L9", { task: "x" })).toThrow("Unknown prompt");
+    expect(() => buildContractPrompt("codex-contract-L1")).toThrow("Missing required argument: task");
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import {
+  backoffDelayMs,
+  buildFreshThreadPrompt,
+  buildNudgePrompt,
+  strategyForAttempt,
+} from "../src/recovery.js";
+
+describe("strategyForAttempt", () => {
+  it("walks the list and repeats the last strategy", () => {
+    const strategies = ["nudge", "fresh-thread"] as const;
+    expect(strategyForAttempt([...strategies], 1)).toBe("nudge");
+    expect(strategyForAttempt([...strategies], 2)).toBe("fresh-thread");
+    expect(strategyForAttempt([...strategies], 5)).toBe("fresh-thread");
+    expect(strategyForAttempt([], 3)).toBe("nudge");
+  });
+});
+
+describe("backoffDelayMs", () => {
+  it("waits nothing before the first attempt, then doubles", () => {
+    expect([1, 2, 3, 4].map((attempt) => backoffDelayMs(1000, attempt))).toEqual([0, 1000, 2000, 4000]);
+    expect(backoffDelayMs(0, 3)).toBe(0);
+  });
+});
+
+describe("recovery prompts", () => {
+  it("uses a custom nudge verbatim and localizes the built-in one", () => {
+    expect(buildNudgePrompt("en", "Keep going")).toBe("Keep going");
+    expect(buildNudgePrompt("en")).toContain("Execution appears to have stalled");
+    expect(buildNudgePrompt("zh")).toContain("检测到执行停滞");
+  });
+
+  it("summarizes completed work for a fresh thread", () => {
+    const prompt = buildFreshThreadPrompt("en", "Add a parser", [
+      { id: "c1", type: "command_execution", command: "pnpm test", aggregated_output: "", exit_code: 1, status: "failed" },
+      { id: "f1", type: "file_change", changes: [{ kind: "update", path: "src/parser.ts" }], status: "completed" },
+      { id: "r1", type: "reasoning", text: "thinking" },
+    ]);
+
+    expect(prompt).toContain("Original task:\nAdd a parser");
+    expect(prompt).toContain("- ran `pnpm test` (exit 1)");
+    expect(prompt).toContain("- changed update src/parser.ts");
+    expect(prompt).toContain("Files it changed:\n- src/parser.ts");
+    expect(prompt).not.toContain("thinking");
+  });
+});
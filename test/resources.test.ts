@@ -0,0 +1,66 @@
+import * as fs from "fs";
+import * as path from "path";
+import { describe, expect, it } from "vitest";
+import { LOG_DIR, markLogActive, markLogInactive } from "../src/logs.js";
+import { listResources, readResource, sessionIdOfLog } from "../src/resources.js";
+import { appendSessionRecord } from "../src/sessions.js";
+
+function writeLog(file: string, text: string): string {
+  fs.mkdirSync(LOG_DIR, { recursive: true });
+  const logPath = path.join(LOG_DIR, file);
+  fs.writeFileSync(logPath, text);
+  return logPath;
+}
+
+describe("resources", () => {
+  it("lists and reads session records and logs", () => {
+    appendSessionRecord({
+      sessionId: "5e55a001",
+      threadId: "thread-resource",
+      mode: "run",
+      level: "L2",
+      resultLevel: "FAIL",
+      prompt: "Add a parser",
+      cwd: null,
+      startedAt: "2026-10-19T10:00:00.000Z",
+      finishedAt: "2026-10-19T10:05:00.000Z",
+      items: [],
+      usage: null,
+      recovery: null,
+    });
+    writeLog("progress-L2-5e55a001-FAIL.log", "=== Codex Session Started ===\n");
+
+    const uris = listResources().map((r) => r.uri);
+    expect(uris).toContain("subcodex://sessions/5e55a001");
+    expect(uris).toContain("subcodex://logs/progress-L2-5e55a001-FAIL.log");
+
+    const session = readResource("subcodex://sessions/5e55a001");
+    expect(JSON.parse(session.text)).toMatchObject({ sessionId: "5e55a001", prompt: "Add a parser" });
+    expect(readResource("subcodex://logs/progress-L2-5e55a001-FAIL.log")).toMatchObject({
+      mimeType: "text/plain",
+      text: "=== Codex Session Started ===\n",
+    });
+  });
+
+  it("reports a running session by its live logs", () => {
+    const logPath = writeLog("progress-L3-5e55a002.log", "running\n");
+    markLogActive(logPath);
+    try {
+      expect(JSON.parse(readResource("subcodex://sessions/5e55a002").text)).toEqual({
+        sessionId: "5e55a002",
+        status: "running",
+        logs: ["subcodex://logs/progress-L3-5e55a002.log"],
+      });
+    } finally {
+      markLogInactive(logPath);
+    }
+    expect(() => readResource("subcodex://sessions/5e55a002")).toThrow("Unknown session");
+  });
+
+  it("only serves session logs from the log directory", () => {
+    expect(sessionIdOfLog("/x/events-L2-5e55a003-PASS.jsonl")).toBe("5e55a003");
+    expect(() => readResource("subcodex://logs/..%2F..%2F.subcodex%2Fsessions.jsonl")).toThrow("Unknown log");
+    expect(() => readResource("subcodex://logs/progress-L2-deadbeef.log")).toThrow("Unknown log");
+    expect(() => readResource("file:///etc/passwd")).toThrow("Unknown resource");
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { checkPathScope } from "../src/scope.js";
+
+describe("checkPathScope", () => {
+  const scope = { allowedPaths: ["src/", "test/**/*.test.ts"], deniedPaths: ["src/generated/**"] };
+
+  it("allows paths matching an allowed glob", () => {
+    expect(checkPathScope("src/api/users.ts", scope)).toBeUndefined();
+    expect(checkPathScope("test/unit/users.test.ts", scope)).toBeUndefined();
+  });
+
+  it("rejects paths outside the allowed globs and denied paths inside them", () => {
+    expect(checkPathScope("package.json", scope)).toBe("not-allowed");
+    expect(checkPathScope("../other/file.ts", scope)).toBe("not-allowed");
+    expect(checkPathScope("src/generated/client.ts", scope)).toBe("denied");
+  });
+
+  it("allows everything not denied when no allowed globs are set", () => {
+    expect(checkPathScope("anything/at/all.md", { deniedPaths: [".env"] })).toBeUndefined();
+    expect(checkPathScope(".env", { deniedPaths: [".env"] })).toBe("denied");
+  });
+});
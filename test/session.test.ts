@@ -0,0 +1,647 @@
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { beforeEach, describe, expect, it } from "vitest";
+import { getFakeInputs, getFakeOutputSchemas, resetFakeBackend, type FakeStep } from "../src/backend.js";
+import { executeSession, type SessionSummary } from "../src/session.js";
+import { appendSessionRecord, getSessionRecords } from "../src/sessions.js";
+import { findWorktreeByThread } from "../src/worktree.js";
+import {
+  FAST_STALL_MINUTES,
+  completed,
+  event,
+  message,
+  stallingTurn,
+  successfulTurn,
+  turnCompleted,
+  useFakeScript,
+} from "./helpers.js";
+
+function asSummary(response: Awaited<ReturnType<typeof executeSession>>): SessionSummary {
+  if ("error" in response) throw new Error(`Unexpected error response: ${response.error}`);
+  return response;
+}
+
+beforeEach(() => {
+  resetFakeBackend();
+});
+
+describe("executeSession", () => {
+  it("returns a PASS summary for a completed session", async () => {
+    useFakeScript({
+      turns: [[
+        event({ type: "thread.started", thread_id: "thread-pass" }),
+        event({ type: "turn.started" }),
+        completed({ id: "c1", type: "command_execution", command: "pnpm test", aggregated_output: "", exit_code: 0, status: "completed" }),
+        completed({ id: "f1", type: "file_change", changes: [{ kind: "update", path: "src/a.ts" }], status: "completed" }),
+        completed(message("Implemented the feature")),
+        turnCompleted(1200, 300),
+      ]],
+    });
+
+    const summary = asSummary(await executeSession({ prompt: "do it", level: "L2" }));
+
+    expect(summary).toMatchObject({
+      threadId: "thread-pass",
+      level: "L2",
+      resultLevel: "PASS",
+      content: "Implemented the feature",
+      progressLog: null,
+      stats: {
+        totalItems: 3,
+        commands: 1,
+        fileChanges: 1,
+        mcpCalls: 0,
+        usage: { input_tokens: 1200, output_tokens: 300 },
+      },
+      filesModified: ["update: src/a.ts"],
+      needsUserInput: false,
+    });
+    expect(summary.recovery).toBeUndefined();
+    expect(summary.rolloutFile).toBeNull();
+  });
+
+  it("writes a JSONL event log and returns the thread's rollout file", async () => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "subcodex-session-logs-"));
+    fs.writeFileSync(path.join(cwd, ".subcodex.json"), JSON.stringify({ logs: { eventLog: true } }));
+    const dayDir = path.join(os.homedir(), ".codex", "sessions", "2026", "10", "19");
+    fs.mkdirSync(dayDir, { recursive: true });
+    const rollout = path.join(dayDir, "rollout-2026-10-19T10-00-00-thread-rollout.jsonl");
+    fs.writeFileSync(rollout, "");
+    const long = "x".repeat(150);
+    useFakeScript({ turns: [successfulTurn("thread-rollout", long)] });
+
+    const summary = asSummary(await executeSession({ prompt: "work", cwd }));
+
+    expect(summary.rolloutFile).toBe(rollout);
+    expect(summary.eventLog).toMatch(/events-L2-[0-9a-f]{8}-PASS\.jsonl$/);
+    const events = fs.readFileSync(summary.eventLog!, "utf8").trim().split("\n").map((line) => JSON.parse(line));
+    expect(events.map((e) => e.event.type)).toEqual(["thread.started", "turn.started", "item.completed", "turn.completed"]);
+    expect(events[2].event.item.text).toBe(long);
+  });
+
+  it("sends attached images and files with the prompt", async () => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "subcodex-session-attach-"));
+    fs.writeFileSync(path.join(cwd, "mockup.png"), "png");
+    fs.writeFileSync(path.join(cwd, "notes.md"), "Use the blue theme\n");
+    const scriptPath = useFakeScript({ turns: [successfulTurn("thread-attach")] });
+
+    const summary = asSummary(await executeSession({ prompt: "build it", cwd, images: ["mockup.png"], files: ["*.md"] }));
+
+    expect(summary.resultLevel).toBe("PASS");
+    expect(getFakeInputs(scriptPath)[0]).toEqual([
+      { type: "text", text: "build it\n\n## Attached Files\n\n### notes.md\n```\nUse the blue theme\n```" },
+      { type: "local_image", path: path.join(cwd, "mockup.png") },
+    ]);
+  });
+
+  it("returns ERROR before starting a turn when an attachment is missing", async () => {
+    const scriptPath = useFakeScript({ turns: [successfulTurn("thread-unused")] });
+
+    const response = await executeSession({ prompt: "build it", images: ["does-not-exist.png"] });
+
+    expect(response).toEqual({ error: "Image not found: does-not-exist.png", resultLevel: "ERROR" });
+    expect(getFakeInputs(scriptPath)).toHaveLength(0);
+  });
+
+  it("forks a thread and continues the copy", async () => {
+    const dayDir = path.join(os.homedir(), ".codex", "sessions", "2026", "10", "18");
+    fs.mkdirSync(dayDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(dayDir, "rollout-2026-10-18T09-00-00-thread-base.jsonl"),
+      `${JSON.stringify({ type: "session_meta", payload: { id: "thread-base" } })}\n`
+    );
+    const scriptPath = useFakeScript({ turns: [[completed(message("Tried the other approach")), turnCompleted()]] });
+
+    const summary = asSummary(await executeSession({ prompt: "try another approach", forkFrom: "thread-base" }));
+
+    expect(summary.forkedFrom).toBe("thread-base");
+    expect(summary.threadId).not.toBe("thread-base");
+    expect(summary.rolloutFile).toContain(summary.threadId);
+    expect(getFakeInputs(scriptPath)).toEqual(["try another approach"]);
+    expect(getSessionRecords(summary.threadId!)[0]).toMatchObject({ mode: "fork", forkedFrom: "thread-base" });
+  });
+
+  it("refuses to fork a thread isolated in a worktree", async () => {
+    const repo = fs.mkdtempSync(path.join(os.tmpdir(), "subcodex-fork-worktree-"));
+    const git = (...args: string[]) => execFileSync("git", args, { cwd: repo });
+    git("init", "-q");
+    fs.writeFileSync(path.join(repo, "a.txt"), "a\n");
+    git("add", ".");
+    git("-c", "user.name=test", "-c", "user.email=test@example.com", "commit", "-q", "-m", "init");
+    useFakeScript({ turns: [successfulTurn("thread-isolated")] });
+
+    const summary = asSummary(await executeSession({ prompt: "work", cwd: repo, isolation: "worktree" }));
+    const response = await executeSession({ prompt: "try another approach", forkFrom: summary.threadId! });
+
+    expect(response).toMatchObject({ resultLevel: "ERROR" });
+    expect("error" in response && response.error).toMatch(/^Thread thread-isolated runs in worktree \S+; apply or discard it before forking$/);
+  });
+
+  it("recovers a stalled session on the same thread", async () => {
+    const scriptPath = useFakeScript({
+      turns: [
+        stallingTurn("thread-stall"),
+        [completed(message("Recovered and finished")), turnCompleted()],
+      ],
+    });
+
+    const summary = asSummary(
+      await executeSession({ prompt: "work", stallTimeoutMinutes: FAST_STALL_MINUTES, maxRecoveryAttempts: 2 })
+    );
+
+    expect(summary.resultLevel).toBe("PASS");
+    expect(summary.content).toBe("Recovered and finished");
+    expect(summary.recovery).toMatchObject({ attempted: true, attempts: 1, recovered: true });
+    expect(summary.needsUserInput).toBe(false);
+    expect(getFakeInputs(scriptPath)).toHaveLength(2);
+  });
+
+  it("nudges in English by default and records every attempt", async () => {
+    const scriptPath = useFakeScript({
+      turns: [stallingTurn("thread-nudge"), [{ stall: true }], [completed(message("Unblocked")), turnCompleted()]],
+    });
+
+    const summary = asSummary(
+      await executeSession({ prompt: "work", stallTimeoutMinutes: FAST_STALL_MINUTES, maxRecoveryAttempts: 2 })
+    );
+
+    expect(summary.resultLevel).toBe("PASS");
+    expect(getFakeInputs(scriptPath)[1]).toContain("Execution appears to have stalled");
+    expect(summary.recovery?.history).toMatchObject([
+      { attempt: 1, strategy: "nudge", threadId: "thread-nudge", outcome: "stalled" },
+      { attempt: 2, strategy: "nudge", threadId: "thread-nudge", outcome: "recovered" },
+    ]);
+  });
+
+  it("escalates to a fresh thread seeded with the stalled thread's work", async () => {
+    const scriptPath = useFakeScript({
+      turns: [
+        [
+          event({ type: "thread.started", thread_id: "thread-stuck" }),
+          completed({ id: "f1", type: "file_change", changes: [{ kind: "add", path: "src/new.ts" }], status: "completed" }),
+          { stall: true },
+        ],
+        successfulTurn("thread-fresh", "Finished on a new thread"),
+      ],
+    });
+
+    const summary = asSummary(
+      await executeSession({
+        prompt: "add the module",
+        stallTimeoutMinutes: FAST_STALL_MINUTES,
+        maxRecoveryAttempts: 1,
+        recoveryStrategies: ["fresh-thread"],
+      })
+    );
+
+    expect(summary.resultLevel).toBe("PASS");
+    expect(summary.threadId).toBe("thread-fresh");
+    expect(summary.recovery).toMatchObject({
+      recovered: true,
+      escalatedThreadId: "thread-fresh",
+      history: [{ strategy: "fresh-thread", threadId: "thread-fresh", outcome: "recovered" }],
+    });
+    expect(summary.filesModified).toEqual(["add: src/new.ts"]);
+    const seed = getFakeInputs(scriptPath)[1];
+    expect(seed).toContain("add the module");
+    expect(seed).toContain("src/new.ts");
+  });
+
+  it("links a fresh thread that replaces a worktree thread to the worktree", async () => {
+    const repo = fs.mkdtempSync(path.join(os.tmpdir(), "subcodex-escalate-worktree-"));
+    const git = (...args: string[]) => execFileSync("git", args, { cwd: repo });
+    git("init", "-q");
+    fs.writeFileSync(path.join(repo, "a.txt"), "a\n");
+    git("add", ".");
+    git("-c", "user.name=test", "-c", "user.email=test@example.com", "commit", "-q", "-m", "init");
+    useFakeScript({
+      turns: [successfulTurn("thread-in-worktree"), [{ stall: true }], successfulTurn("thread-replacement")],
+    });
+
+    const first = asSummary(await executeSession({ prompt: "work", cwd: repo, isolation: "worktree" }));
+    const reply = asSummary(
+      await executeSession({
+        prompt: "keep going",
+        threadId: "thread-in-worktree",
+        stallTimeoutMinutes: FAST_STALL_MINUTES,
+        maxRecoveryAttempts: 1,
+        recoveryStrategies: ["fresh-thread"],
+      })
+    );
+
+    expect(reply.threadId).toBe("thread-replacement");
+    expect(findWorktreeByThread("thread-replacement")).toMatchObject({ path: first.worktree!.path });
+    expect(findWorktreeByThread("thread-in-worktree")).toBeUndefined();
+  });
+
+  it("returns TIMEOUT and asks for user input when every recovery attempt stalls", async () => {
+    useFakeScript({
+      turns: [stallingTurn("thread-dead"), [{ stall: true }], [{ stall: true }]],
+    });
+
+    const summary = asSummary(
+      await executeSession({ prompt: "work", stallTimeoutMinutes: FAST_STALL_MINUTES, maxRecoveryAttempts: 2 })
+    );
+
+    expect(summary.resultLevel).toBe("TIMEOUT");
+    expect(summary.needsUserInput).toBe(true);
+    expect(summary.recovery).toMatchObject({
+      attempted: true,
+      attempts: 2,
+      recovered: false,
+      lastError: "Still stalled after recovery attempt",
+    });
+    expect(summary.progressLog).toMatch(/-TIMEOUT\.log$/);
+  });
+
+  it("waits for the command timeout while a command is running", async () => {
+    const command = { id: "c1", type: "command_execution", command: "pnpm build", aggregated_output: "", status: "in_progress" } as const;
+    useFakeScript({
+      turns: [[
+        event({ type: "thread.started", thread_id: "thread-slow-cmd" }),
+        event({ type: "item.started", item: command }),
+        completed({ ...command, exit_code: 0, status: "completed" }, 300),
+        completed(message("Built")),
+        turnCompleted(),
+      ]],
+    });
+
+    const summary = asSummary(
+      await executeSession({ prompt: "build", stallTimeoutMinutes: FAST_STALL_MINUTES, commandTimeoutMinutes: 2 / 60 })
+    );
+
+    expect(summary.resultLevel).toBe("PASS");
+    expect(summary.recovery).toBeUndefined();
+  });
+
+  it("reports why a recovered session stalled", async () => {
+    useFakeScript({
+      turns: [stallingTurn("thread-reason"), [completed(message("Back")), turnCompleted()]],
+    });
+
+    const summary = asSummary(
+      await executeSession({ prompt: "work", stallTimeoutMinutes: FAST_STALL_MINUTES, maxRecoveryAttempts: 1 })
+    );
+
+    expect(summary.resultLevel).toBe("PASS");
+    expect(summary.stallReason).toMatch(/^no events/);
+    expect(summary.recovery?.stallReason).toMatch(/^no events/);
+  });
+
+  it("returns TIMEOUT without recovery once maxDurationMinutes is exceeded", async () => {
+    const scriptPath = useFakeScript({ turns: [stallingTurn("thread-budget"), successfulTurn("thread-budget")] });
+
+    const summary = asSummary(
+      await executeSession({ prompt: "work", stallTimeoutMinutes: 5, maxDurationMinutes: FAST_STALL_MINUTES })
+    );
+
+    expect(summary.resultLevel).toBe("TIMEOUT");
+    expect(summary.needsUserInput).toBe(true);
+    expect(summary.stallReason).toMatch(/max duration .* exceeded/);
+    expect(summary.recovery).toBeUndefined();
+    expect(getFakeInputs(scriptPath)).toHaveLength(1);
+  });
+
+  it("keeps a usage ledger across the prompt turn and auto-fix turns", async () => {
+    useFakeScript({
+      turns: [
+        [event({ type: "thread.started", thread_id: "thread-ledger" }), completed(message("First")), turnCompleted(100, 50)],
+        [completed(message("Fixed")), turnCompleted(200, 70)],
+      ],
+    });
+
+    const summary = asSummary(
+      await executeSession({ prompt: "work", verify: ["exit 1"], autoFixAttempts: 1 })
+    );
+
+    expect(summary.stats.usage).toEqual({ input_tokens: 300, cached_input_tokens: 0, output_tokens: 120 });
+    expect(summary.stats.turnUsage).toMatchObject([
+      { kind: "turn", threadId: "thread-ledger", input_tokens: 100, output_tokens: 50 },
+      { kind: "auto-fix", threadId: "thread-ledger", input_tokens: 200, output_tokens: 70 },
+    ]);
+  });
+
+  it("stops starting turns once a token budget is exceeded", async () => {
+    const scriptPath = useFakeScript({
+      turns: [successfulTurn("thread-budget-tokens"), successfulTurn("thread-budget-tokens")],
+    });
+
+    const summary = asSummary(
+      await executeSession({ prompt: "work", verify: ["exit 1"], autoFixAttempts: 2, maxOutputTokens: 40 })
+    );
+
+    expect(summary.resultLevel).toBe("FAIL");
+    expect(summary.tokenBudgetExceeded).toBe("output tokens 50 exceeded maxOutputTokens 40");
+    expect(summary.verification?.fixAttempts).toBe(0);
+    expect(getFakeInputs(scriptPath)).toHaveLength(1);
+  });
+
+  it("totals usage per thread across run and reply", async () => {
+    useFakeScript({
+      turns: [successfulTurn("thread-total"), [completed(message("Again")), turnCompleted(300, 10)]],
+    });
+
+    const run = asSummary(await executeSession({ prompt: "start" }));
+    const reply = asSummary(await executeSession({ prompt: "continue", threadId: run.threadId! }));
+
+    expect(reply.stats.usage).toMatchObject({ input_tokens: 300, output_tokens: 10 });
+    expect(reply.stats.threadUsage).toEqual({ input_tokens: 400, cached_input_tokens: 0, output_tokens: 60 });
+  });
+
+  it("returns diffs and a diff stat of the files Codex changed", async () => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "subcodex-session-diff-"));
+    fs.writeFileSync(path.join(cwd, "notes.md"), "old\n");
+    useFakeScript({
+      turns: [[
+        event({ type: "thread.started", thread_id: "thread-diff" }),
+        completed({ id: "f1", type: "file_change", changes: [{ kind: "update", path: "notes.md" }], status: "completed" }),
+        completed(message("Edited")),
+        turnCompleted(),
+      ]],
+    });
+
+    const summary = asSummary(
+      await executeSession({ prompt: "edit", cwd, includeDiff: true }, {
+        // Stand in for Codex applying the patch
+        onEvent: (e) => {
+          if (e.type === "item.completed" && e.item.type === "file_change") {
+            fs.writeFileSync(path.join(cwd, "notes.md"), "new\n");
+          }
+        },
+      })
+    );
+
+    expect(summary.stats.diffStat).toEqual([{ path: "notes.md", added: 1, removed: 1 }]);
+    expect(summary.diffs).toEqual([
+      { path: "notes.md", diff: "diff --git a/notes.md b/notes.md\n--- a/notes.md\n+++ b/notes.md\n@@ -1 +1 @@\n-old\n+new" },
+    ]);
+  });
+
+  it("does not record the working copy when nothing needs it", async () => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "subcodex-session-nobaseline-"));
+    execFileSync("git", ["init", "-q"], { cwd });
+    fs.writeFileSync(path.join(cwd, "notes.md"), "old\n");
+    useFakeScript({ turns: [successfulTurn("thread-no-baseline")] });
+
+    const summary = asSummary(await executeSession({ prompt: "edit", cwd, checkpoints: false }));
+
+    expect(summary.stats.diffStat).toBeUndefined();
+    // Recording it would have written the untracked file as a blob
+    expect(execFileSync("git", ["count-objects"], { cwd, encoding: "utf8" })).toMatch(/^0 objects/);
+  });
+
+  describe("structured output", () => {
+    const outputSchema = {
+      type: "object",
+      properties: { changedFiles: { type: "array", items: { type: "string" } }, testsRun: { type: "number" } },
+      required: ["changedFiles", "testsRun"],
+    };
+
+    it("passes outputSchema to the turn and returns the parsed final message", async () => {
+      const scriptPath = useFakeScript({
+        turns: [successfulTurn("thread-structured", '{"changedFiles":["a.ts"],"testsRun":3}')],
+      });
+
+      const summary = asSummary(await executeSession({ prompt: "work", outputSchema }));
+
+      expect(summary.resultLevel).toBe("PASS");
+      expect(summary.structuredContent).toEqual({ changedFiles: ["a.ts"], testsRun: 3 });
+      expect(summary.structuredOutput).toEqual({ valid: true, retries: 0 });
+      expect(getFakeOutputSchemas(scriptPath)).toEqual([outputSchema]);
+    });
+
+    it("re-asks on the same thread with the validation errors", async () => {
+      const scriptPath = useFakeScript({
+        turns: [
+          successfulTurn("thread-reask", "I changed a.ts and ran the tests."),
+          [completed(message("```json\n{\"changedFiles\":[],\"testsRun\":1}\n```")), turnCompleted()],
+        ],
+      });
+
+      const summary = asSummary(await executeSession({ prompt: "work", outputSchema }));
+
+      expect(summary.resultLevel).toBe("PASS");
+      expect(summary.structuredContent).toEqual({ changedFiles: [], testsRun: 1 });
+      expect(summary.structuredOutput).toEqual({ valid: true, retries: 1 });
+      expect(summary.stats.turnUsage.map((u) => u.kind)).toEqual(["turn", "schema-retry"]);
+      expect(String(getFakeInputs(scriptPath)[1])).toContain("not valid JSON");
+    });
+
+    it("fails once the re-asks run out", async () => {
+      useFakeScript({
+        turns: [successfulTurn("thread-reask-fail", '{"changedFiles":"a.ts"}'), successfulTurn("thread-reask-fail", "{}")],
+      });
+
+      const summary = asSummary(await executeSession({ prompt: "work", outputSchema, outputSchemaRetries: 1 }));
+
+      expect(summary.resultLevel).toBe("FAIL");
+      expect(summary.structuredContent).toBeUndefined();
+      expect(summary.structuredOutput).toMatchObject({ valid: false, retries: 1 });
+      expect(summary.structuredOutput?.error).toMatch(/changedFiles/);
+    });
+
+    it("rejects an invalid schema before running", async () => {
+      const scriptPath = useFakeScript({ turns: [successfulTurn("thread-bad-schema")] });
+
+      const response = await executeSession({ prompt: "work", outputSchema: { type: "nope" } });
+
+      expect(response).toMatchObject({ resultLevel: "ERROR", error: expect.stringMatching(/^Invalid outputSchema/) });
+      expect(getFakeInputs(scriptPath)).toHaveLength(0);
+    });
+  });
+
+  describe("path scope", () => {
+    function fileChangeTurn(threadId: string, filePath: string): FakeStep[] {
+      return [
+        event({ type: "thread.started", thread_id: threadId }),
+        completed({ id: "f1", type: "file_change", changes: [{ kind: "update", path: filePath }], status: "completed" }),
+        completed(message("Done")),
+        turnCompleted(),
+      ];
+    }
+
+    it("flags changes outside the scope and fails the session", async () => {
+      useFakeScript({ turns: [fileChangeTurn("thread-scope-flag", "package.json")] });
+
+      const summary = asSummary(await executeSession({ prompt: "work", allowedPaths: ["src/"] }));
+
+      expect(summary.resultLevel).toBe("FAIL");
+      expect(summary.scopeViolations).toEqual([
+        { path: "package.json", kind: "update", reason: "not-allowed", action: "flag" },
+      ]);
+    });
+
+    it("reverts denied changes to their state before the session", async () => {
+      const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "subcodex-scope-"));
+      const secret = path.join(cwd, ".env");
+      fs.writeFileSync(secret, "TOKEN=keep\n");
+      useFakeScript({ turns: [fileChangeTurn("thread-scope-revert", ".env")] });
+
+      const summary = asSummary(
+        await executeSession({ prompt: "work", cwd, deniedPaths: [".env"], scopeAction: "revert" }, {
+          onEvent: (e) => {
+            if (e.type === "item.completed" && e.item.type === "file_change") fs.writeFileSync(secret, "TOKEN=leaked\n");
+          },
+        })
+      );
+
+      expect(fs.readFileSync(secret, "utf8")).toBe("TOKEN=keep\n");
+      expect(summary.resultLevel).toBe("FAIL");
+      expect(summary.scopeViolations).toMatchObject([{ path: ".env", reason: "denied", action: "revert", reverted: true }]);
+    });
+
+    it("leaves a git-ignored file alone instead of deleting it", async () => {
+      const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "subcodex-scope-ignored-"));
+      execFileSync("git", ["init", "-q"], { cwd });
+      fs.writeFileSync(path.join(cwd, ".gitignore"), ".env\n");
+      const secret = path.join(cwd, ".env");
+      fs.writeFileSync(secret, "TOKEN=keep\n");
+      useFakeScript({ turns: [fileChangeTurn("thread-scope-ignored", ".env")] });
+
+      const summary = asSummary(
+        await executeSession({ prompt: "work", cwd, deniedPaths: [".env"], scopeAction: "revert" }, {
+          onEvent: (e) => {
+            if (e.type === "item.completed" && e.item.type === "file_change") fs.writeFileSync(secret, "TOKEN=changed\n");
+          },
+        })
+      );
+
+      expect(fs.readFileSync(secret, "utf8")).toBe("TOKEN=changed\n");
+      expect(summary.scopeViolations).toMatchObject([
+        { path: ".env", action: "revert", reverted: false, error: expect.stringContaining("ignored by git") },
+      ]);
+    });
+
+    it("aborts the session on the first violation", async () => {
+      const scriptPath = useFakeScript({
+        turns: [
+          [...fileChangeTurn("thread-scope-abort", "docs/readme.md").slice(0, 2), { stall: true }],
+          successfulTurn("thread-scope-abort"),
+        ],
+      });
+
+      const summary = asSummary(
+        await executeSession({ prompt: "work", allowedPaths: ["src/"], scopeAction: "abort", autoFixAttempts: 1, verify: ["exit 1"] })
+      );
+
+      expect(summary.resultLevel).toBe("FAIL");
+      expect(summary.recovery).toBeUndefined();
+      expect(summary.verification).toBeUndefined();
+      expect(getFakeInputs(scriptPath)).toHaveLength(1);
+    });
+  });
+
+  describe("classification", () => {
+    const failingTurn = (threadId: string): FakeStep[] => [
+      event({ type: "thread.started", thread_id: threadId }),
+      completed({ id: "c1", type: "command_execution", command: "pnpm build", aggregated_output: "error TS2304", exit_code: 2, status: "failed" }),
+      completed({ id: "f1", type: "file_change", changes: [{ kind: "update", path: "src/a.ts" }], status: "completed" }),
+      completed(message("Partly done")),
+      event({ type: "turn.failed", error: { message: "usage limit reached" } }),
+    ];
+
+    it("fails a turn.failed turn with reasons and keeps details out of compact responses", async () => {
+      useFakeScript({ turns: [failingTurn("thread-turn-failed")] });
+
+      const summary = asSummary(await executeSession({ prompt: "work" }));
+
+      expect(summary.resultLevel).toBe("FAIL");
+      expect(summary.reasons).toEqual(["turn failed: usage limit reached"]);
+      expect(summary.failures).toBeUndefined();
+      expect(summary.report).toBeUndefined();
+    });
+
+    it("returns failures with verbosity full and a report with verbosity markdown", async () => {
+      useFakeScript({ turns: [failingTurn("thread-full"), failingTurn("thread-markdown")] });
+
+      const full = asSummary(await executeSession({ prompt: "work", verbosity: "full" }));
+      const markdown = asSummary(await executeSession({ prompt: "work", verbosity: "markdown" }));
+
+      expect(full.failures).toEqual({
+        turnFailures: ["usage limit reached"],
+        streamErrors: [],
+        failedCommands: [{ command: "pnpm build", exitCode: 2, outputTail: "error TS2304" }],
+        failedFileChanges: [],
+      });
+      expect(markdown.failures).toBeUndefined();
+      expect(markdown.report).toContain("**Result:** FAIL");
+      expect(markdown.report).toContain("`pnpm build` (exit 2)");
+    });
+
+    it("explains failed acceptance checks", async () => {
+      useFakeScript({ turns: [successfulTurn("thread-reasons")] });
+
+      const summary = asSummary(await executeSession({ prompt: "work", verify: ["exit 3"] }));
+
+      expect(summary.resultLevel).toBe("FAIL");
+      expect(summary.reasons).toEqual(["acceptance checks failed: exit 3"]);
+    });
+  });
+
+  it("reports a stream failure as ERROR", async () => {
+    useFakeScript({
+      turns: [[event({ type: "thread.started", thread_id: "thread-err" }), { throw: "Codex Exec exited with code 2: boom" }]],
+    });
+
+    const response = await executeSession({ prompt: "work" });
+
+    expect(response).toMatchObject({ resultLevel: "ERROR" });
+    expect("error" in response && response.error).toContain("boom");
+  });
+
+  it("reports CANCELLED when the caller aborts", async () => {
+    useFakeScript({ turns: [stallingTurn("thread-cancel")] });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+
+    const summary = asSummary(await executeSession({ prompt: "work" }, { signal: controller.signal }));
+
+    expect(summary.resultLevel).toBe("CANCELLED");
+    expect(summary.needsUserInput).toBe(false);
+  });
+
+  it("records the session in the session store", async () => {
+    useFakeScript({ turns: [successfulTurn("thread-record", "Stored")] });
+
+    const summary = asSummary(await executeSession({ prompt: "remember me", level: "L3" }));
+    const [record] = getSessionRecords(summary.sessionId);
+
+    expect(record).toMatchObject({
+      threadId: "thread-record",
+      mode: "run",
+      level: "L3",
+      resultLevel: "PASS",
+      prompt: "remember me",
+    });
+    expect(record.items).toHaveLength(1);
+  });
+
+  it("resumes a thread in the cwd from the session store when this server has not seen it", async () => {
+    const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "subcodex-stored-cwd-"));
+    fs.writeFileSync(path.join(cwd, "marker.txt"), "here\n");
+    appendSessionRecord({
+      sessionId: "earlier",
+      threadId: "thread-restarted",
+      mode: "run",
+      level: "L2",
+      resultLevel: "PASS",
+      prompt: "start",
+      cwd,
+      startedAt: new Date().toISOString(),
+      finishedAt: new Date().toISOString(),
+      items: [],
+      usage: null,
+      recovery: null,
+    });
+    useFakeScript({ turns: [successfulTurn("thread-restarted")] });
+
+    const summary = asSummary(
+      await executeSession({ prompt: "continue", threadId: "thread-restarted", verify: ["test -f marker.txt"] })
+    );
+
+    expect(summary.resultLevel).toBe("PASS");
+    expect(getSessionRecords("thread-restarted").map((r) => r.cwd)).toEqual([cwd, cwd]);
+  });
+});
@@ -0,0 +1,12 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+// Keep progress logs, configs and the session store out of the real home directory
+process.env.HOME = fs.mkdtempSync(path.join(os.tmpdir(), "subcodex-test-home-"));
+process.env.USERPROFILE = process.env.HOME;
+delete process.env.SUBCODEX_BACKEND;
+delete process.env.SUBCODEX_FAKE_SCRIPT;
+
+// Sessions without a cwd run in the process cwd; keep their checkpoints out of this repository
+process.chdir(fs.mkdtempSync(path.join(os.tmpdir(), "subcodex-test-cwd-")));
@@ -0,0 +1,122 @@
+import type { ThreadEvent } from "@openai/codex-sdk";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { describe, expect, it } from "vitest";
+import {
+  determineResultLevel,
+  formatItem,
+  processEventsWithStallDetection,
+} from "../src/session.js";
+
+function tempLog(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "subcodex-log-"));
+  return path.join(dir, "progress.log");
+}
+
+async function* scripted(events: ThreadEvent[], hangAfter = false, signal?: AbortSignal) {
+  for (const e of events) yield e;
+  if (hangAfter) {
+    await new Promise((_, reject) => signal?.addEventListener("abort", () => reject(new Error("aborted"))));
+  }
+}
+
+describe("processEventsWithStallDetection", () => {
+  it("collects items, thread id, final response and usage", async () => {
+    const result = await processEventsWithStallDetection(
+      scripted([
+        { type: "thread.started", thread_id: "t-1" },
+        { type: "item.completed", item: { id: "1", type: "reasoning", text: "thinking" } },
+        { type: "item.completed", item: { id: "2", type: "agent_message", text: "All done" } },
+        { type: "turn.completed", usage: { input_tokens: 10, cached_input_tokens: 0, output_tokens: 5 } },
+      ]),
+      tempLog(),
+      1000
+    );
+
+    expect(result.threadId).toBe("t-1");
+    expect(result.items.map((i) => i.type)).toEqual(["reasoning", "agent_message"]);
+    expect(result.finalResponse).toBe("All done");
+    expect(result.usage).toEqual({ input_tokens: 10, cached_input_tokens: 0, output_tokens: 5 });
+    expect(result.stalled).toBe(false);
+    expect(result.cancelled).toBe(false);
+  });
+
+  it("marks the turn stalled and aborts it when no event arrives in time", async () => {
+    const turnController = new AbortController();
+    const log = tempLog();
+
+    const result = await processEventsWithStallDetection(
+      scripted([{ type: "thread.started", thread_id: "t-2" }], true, turnController.signal),
+      log,
+      50,
+      {},
+      turnController
+    );
+
+    expect(result.stalled).toBe(true);
+    expect(result.threadId).toBe("t-2");
+    expect(turnController.signal.aborted).toBe(true);
+    expect(fs.readFileSync(log, "utf8")).toContain("STALL DETECTED");
+  });
+
+  it("reports cancellation when the session signal is aborted", async () => {
+    const session = new AbortController();
+    const turnController = new AbortController();
+    setTimeout(() => session.abort(), 20);
+
+    const result = await processEventsWithStallDetection(
+      scripted([], true, session.signal),
+      tempLog(),
+      5000,
+      { signal: session.signal },
+      turnController
+    );
+
+    expect(result.cancelled).toBe(true);
+    expect(result.stalled).toBe(false);
+  });
+
+  it("passes every event to onEvent", async () => {
+    const seen: string[] = [];
+    await processEventsWithStallDetection(
+      scripted([{ type: "thread.started", thread_id: "t" }, { type: "turn.started" }]),
+      tempLog(),
+      1000,
+      { onEvent: (e) => seen.push(e.type) }
+    );
+    expect(seen).toEqual(["thread.started", "turn.started"]);
+  });
+});
+
+describe("determineResultLevel", () => {
+  it("is PASS when the agent replied", () => {
+    expect(determineResultLevel([{ id: "1", type: "agent_message", text: "ok" }], false)).toBe("PASS");
+  });
+
+  it("is FAIL when there is no reply and a file change failed", () => {
+    const items = [{ id: "1", type: "file_change" as const, changes: [], status: "failed" as const }];
+    expect(determineResultLevel(items, false)).toBe("FAIL");
+  });
+
+  it("distinguishes timeouts from other errors", () => {
+    expect(determineResultLevel([], true, "request timeout")).toBe("TIMEOUT");
+    expect(determineResultLevel([], true, "boom")).toBe("ERROR");
+  });
+});
+
+describe("formatItem", () => {
+  it("truncates long messages", () => {
+    const line = formatItem({ id: "1", type: "agent_message", text: "x".repeat(150) });
+    expect(line).toBe(`[Message] ${"x".repeat(100)}...`);
+  });
+
+  it("summarizes commands and file changes", () => {
+    expect(
+      formatItem({ id: "1", type: "command_execution", command: "ls", aggregated_output: "", exit_code: 0, status: "completed" })
+    ).toBe("[Command] ls (status: completed, exit: 0)");
+    expect(
+      formatItem({ id: "2", type: "file_change", changes: [{ kind: "add", path: "a.ts" }], status: "completed" })
+    ).toBe("[FileChange] add: a.ts (completed)");
+  });
+});